@@ -0,0 +1,103 @@
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from '../app.module';
+import { NetlinkService } from '../modules/paperclub/services/netlink.service';
+import {
+  AnchorProfile,
+  AnchorProfileService,
+} from '../modules/paperclub/services/anchor-profile.service';
+import { ANCHOR_TYPES } from '../config/anchor-text.config';
+
+/**
+ * Build the anchor text profile of contracted netlinks
+ *
+ * Anchors come from the check history (last check of each netlink, link found),
+ * so run a scrape with history enabled first.
+ *
+ * Usage:
+ *   npm run anchors:profile [contract_id]
+ *
+ * Example:
+ *   npm run anchors:profile
+ *   npm run anchors:profile 123
+ */
+async function buildAnchorProfile() {
+  console.log('='.repeat(80));
+  console.log('ANCHOR TEXT PROFILE');
+  console.log('='.repeat(80));
+
+  const contractId = process.argv[2];
+  if (contractId) {
+    console.log(`\nContract ID: ${contractId}`);
+  }
+
+  const app = await NestFactory.createApplicationContext(AppModule);
+  const netlinkService = app.get(NetlinkService);
+  const anchorProfileService = app.get(AnchorProfileService);
+
+  try {
+    console.log('\nFetching netlinks...');
+    const netlinks = await netlinkService.fetchAllNetlinks({
+      limit: 100,
+      contractId,
+    });
+    console.log(`✓ ${netlinks.length} netlinks fetched`);
+
+    const entries = await anchorProfileService.collectFromHistory(netlinks);
+    console.log(`✓ ${entries.length} verified anchors in the check history\n`);
+
+    const report = anchorProfileService.buildReport(entries, netlinks.length);
+    const reportPath = await anchorProfileService.saveReport(report);
+
+    const printProfile = (profile: AnchorProfile) => {
+      console.log(
+        `\n${profile.overOptimized ? '⚠' : '✓'} ${profile.key} - ${profile.totalAnchors} anchors, ${profile.uniqueAnchors} unique`,
+      );
+      const distribution = ANCHOR_TYPES.filter(
+        (type) => profile.distribution[type].count > 0,
+      )
+        .map(
+          (type) =>
+            `${type} ${Math.round(profile.distribution[type].share * 100)}%`,
+        )
+        .join(', ');
+      console.log(`   ${distribution}`);
+      profile.topAnchors.slice(0, 3).forEach((anchor) => {
+        console.log(`   - "${anchor.text}" (${anchor.type}) x${anchor.count}`);
+      });
+      profile.warnings.forEach((warning) => console.log(`   ⚠ ${warning}`));
+    };
+
+    console.log('='.repeat(80));
+    console.log('CONTRACTS');
+    console.log('='.repeat(80));
+    report.contracts.forEach(printProfile);
+
+    const flaggedLandingPages = report.landingPages.filter(
+      (profile) => profile.overOptimized,
+    );
+    if (flaggedLandingPages.length > 0) {
+      console.log('\n' + '-'.repeat(80));
+      console.log('OVER-OPTIMIZED LANDING PAGES');
+      console.log('-'.repeat(80));
+      flaggedLandingPages.forEach(printProfile);
+    }
+
+    console.log('\n' + '='.repeat(80));
+    console.log('SUMMARY');
+    console.log('='.repeat(80));
+    console.log(`Netlinks: ${report.totalNetlinks}`);
+    console.log(`Verified anchors: ${report.verifiedAnchors}`);
+    console.log(`Landing pages: ${report.landingPages.length}`);
+    console.log(
+      `Exact-match warnings: ${report.warnings.length} (max ${Math.round(report.exactMatchMaxShare * 100)}%)`,
+    );
+    console.log(`\n✓ Report saved to: ${reportPath}`);
+  } catch (error) {
+    console.error('\n❌ Anchor profile failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await app.close();
+  }
+}
+
+buildAnchorProfile().catch(console.error);
@@ -0,0 +1,106 @@
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from '../app.module';
+import { NetlinkService } from '../modules/paperclub/services/netlink.service';
+import { LandingPageHealthService } from '../modules/paperclub/services/landing-page-health.service';
+
+/**
+ * Check the landing pages of contracted netlinks
+ *
+ * Each unique landing page is checked once (status code, redirect chain,
+ * canonical, noindex), then contracts whose backlinks point at broken or
+ * redirected targets are listed.
+ *
+ * Usage:
+ *   npm run landing:check [contract_id]
+ *
+ * Example:
+ *   npm run landing:check
+ *   npm run landing:check 123
+ */
+async function checkLandingPages() {
+  console.log('='.repeat(80));
+  console.log('LANDING PAGE HEALTH CHECK');
+  console.log('='.repeat(80));
+
+  const contractId = process.argv[2];
+  if (contractId) {
+    console.log(`\nContract ID: ${contractId}`);
+  }
+
+  const app = await NestFactory.createApplicationContext(AppModule);
+  const netlinkService = app.get(NetlinkService);
+  const healthService = app.get(LandingPageHealthService);
+
+  try {
+    console.log('\nFetching netlinks...');
+    const netlinks = await netlinkService.fetchAllNetlinks({
+      limit: 100,
+      contractId,
+    });
+    console.log(`✓ ${netlinks.length} netlinks fetched\n`);
+
+    const report = await healthService.checkNetlinks(netlinks, {
+      concurrency: 3,
+      onProgress: (current, total, url) => {
+        const shortUrl = url.length > 60 ? url.substring(0, 60) + '...' : url;
+        process.stdout.write(
+          `\r   Progress: ${current}/${total} - ${shortUrl}`.padEnd(100),
+        );
+      },
+    });
+
+    const reportPath = await healthService.saveReport(report);
+
+    console.log('\n\n' + '='.repeat(80));
+    console.log('SUMMARY');
+    console.log('='.repeat(80));
+    console.log(`Netlinks: ${report.totalNetlinks}`);
+    console.log(`Unique landing pages: ${report.totalTargets}`);
+    console.log(`✓ OK: ${report.summary.ok}`);
+    console.log(`⚠ Warning: ${report.summary.warning}`);
+    console.log(`✗ Broken: ${report.summary.broken}`);
+
+    const problems = report.targets.filter((check) => check.status !== 'ok');
+    if (problems.length > 0) {
+      console.log('\n' + '-'.repeat(80));
+      console.log('LANDING PAGES WITH ISSUES');
+      console.log('-'.repeat(80));
+      problems.forEach((check) => {
+        console.log(
+          `\n${check.status === 'broken' ? '✗' : '⚠'} ${check.url} (${check.statusCode ?? 'no response'})`,
+        );
+        console.log(`   Issues: ${check.issues.join(', ')}`);
+        if (check.redirectChain.length > 0) {
+          console.log(`   Redirects: ${check.redirectChain.join(' -> ')}`);
+        }
+        if (check.error) {
+          console.log(`   Error: ${check.error}`);
+        }
+        console.log(`   Netlinks: ${check.netlinkIds.length}`);
+      });
+    }
+
+    if (report.flaggedContracts.length > 0) {
+      console.log('\n' + '-'.repeat(80));
+      console.log('FLAGGED CONTRACTS');
+      console.log('-'.repeat(80));
+      report.flaggedContracts.forEach((contract) => {
+        console.log(
+          `\nContract ${contract.contractId}: ${contract.status.toUpperCase()} - ${contract.affectedNetlinks}/${contract.netlinks} netlinks affected`,
+        );
+        contract.targets.forEach((target) => {
+          console.log(`   - ${target.url}: ${target.issues.join(', ')}`);
+        });
+      });
+    }
+
+    console.log(`\n✓ Report saved to: ${reportPath}`);
+  } catch (error) {
+    console.error('\n❌ Landing page check failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await app.close();
+  }
+}
+
+checkLandingPages().catch(console.error);
@@ -0,0 +1,124 @@
+import { ConfigService } from '@nestjs/config';
+import * as dotenv from 'dotenv';
+import {
+  NetlinkSnapshotService,
+  NetlinkSnapshot,
+} from '../modules/paperclub/services/netlink-snapshot.service';
+
+dotenv.config();
+
+/**
+ * Diff archived snapshots of a netlink page
+ *
+ * By default compares the last snapshot where the link was present with the
+ * first one where it was missing, and shows the changed region around the link.
+ *
+ * Usage:
+ *   npm run snapshot:diff <netlink_id> [before_hash] [after_hash]
+ *
+ * Example:
+ *   npm run snapshot:diff 123
+ *   npm run snapshot:diff 123 3f2a9c1b 9e71d04a
+ */
+async function diffNetlinkSnapshots() {
+  const netlinkId = parseInt(process.argv[2], 10);
+  const beforeHash = process.argv[3];
+  const afterHash = process.argv[4];
+
+  if (!netlinkId) {
+    console.error('\n❌ Error: netlink_id is required');
+    console.log('\nUsage:');
+    console.log(
+      '  npm run snapshot:diff <netlink_id> [before_hash] [after_hash]',
+    );
+    process.exit(1);
+  }
+
+  const snapshotService = new NetlinkSnapshotService(new ConfigService());
+  const snapshots = await snapshotService.listSnapshots(netlinkId);
+
+  console.log('='.repeat(80));
+  console.log(`NETLINK ${netlinkId} SNAPSHOTS`);
+  console.log('='.repeat(80));
+
+  if (snapshots.length === 0) {
+    console.log('\nNo snapshots archived for this netlink.');
+    process.exit(0);
+  }
+
+  snapshots.forEach((s) => {
+    console.log(
+      `  ${s.checkedAt}  ${s.contentHash.slice(0, 12)}  ${s.linkPresent ? '✓ link present' : '✗ link missing'}  (${(s.bytes / 1024).toFixed(1)} KB)`,
+    );
+  });
+
+  let pair: { before: NetlinkSnapshot; after: NetlinkSnapshot } | undefined;
+  if (beforeHash && afterHash) {
+    const find = (hash: string) =>
+      snapshots.find((s) => s.contentHash.startsWith(hash));
+    const before = find(beforeHash);
+    const after = find(afterHash);
+    if (!before || !after) {
+      console.error(
+        `\n❌ Snapshot not found: ${!before ? beforeHash : afterHash}`,
+      );
+      process.exit(1);
+    }
+    pair = { before, after };
+  } else {
+    pair = await snapshotService.findRemovalPair(netlinkId);
+  }
+
+  if (!pair) {
+    console.log('\nNo removal found: the link was never present then missing.');
+    process.exit(0);
+  }
+
+  const diff = await snapshotService.diff(pair.before, pair.after);
+
+  console.log('\n' + '-'.repeat(80));
+  console.log(
+    `Before: ${pair.before.checkedAt} (${pair.before.contentHash.slice(0, 12)})`,
+  );
+  console.log(
+    `After:  ${pair.after.checkedAt} (${pair.after.contentHash.slice(0, 12)})`,
+  );
+  if (pair.before.linkHref) {
+    console.log(`Link:   ${pair.before.linkHref}`);
+  }
+  if (pair.before.linkOuterHTML) {
+    console.log(`Anchor: ${pair.before.linkOuterHTML}`);
+  }
+  console.log('-'.repeat(80));
+
+  if (diff.identical) {
+    console.log('\nSnapshots are identical (same content hash).');
+    process.exit(0);
+  }
+
+  if (diff.linkRemoved) {
+    console.log('\nResult: link REMOVED from the page');
+  } else if (diff.linkModified) {
+    console.log('\nResult: link region MODIFIED (href still present)');
+  } else {
+    console.log('\nResult: page changed, link region not located');
+  }
+
+  diff.hunks.forEach((hunk) => {
+    console.log(
+      `\n@@ -${hunk.beforeStart} +${hunk.afterStart} @@${hunk.touchesLink ? '  (link region)' : ''}`,
+    );
+    hunk.lines.forEach((line) => {
+      const prefix =
+        line.type === 'removed' ? '-' : line.type === 'added' ? '+' : ' ';
+      console.log(`${prefix} ${line.text.slice(0, 200)}`);
+    });
+  });
+
+  console.log(`\n${diff.hunks.length} changed region(s) shown`);
+}
+
+diffNetlinkSnapshots().catch((error) => {
+  console.error('\n❌ Snapshot diff failed:', error.message);
+  process.exit(1);
+});
@@ -1,6 +1,7 @@
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from '../app.module';
 import { NetlinkScraperService } from '../modules/paperclub/services/netlink-scraper.service';
+import { NetlinkSnapshotService } from '../modules/paperclub/services/netlink-snapshot.service';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
@@ -13,12 +14,16 @@ import * as path from 'path';
  * 3. Progress tracking
  * 4. Saving results to JSON file
  * 5. Posting results to API
+ * 6. Exporting link screenshots for client reports (--screenshots)
+ * 7. Detecting links cloaked from Googlebot (--cloaking)
  *
  * Usage:
- *   npm run test:netlink-scraper:contract <contract_id>
+ *   npm run test:netlink-scraper:contract <contract_id> [--screenshots] [--cloaking]
  *
  * Example:
  *   npm run test:netlink-scraper:contract 123
+ *   npm run test:netlink-scraper:contract 123 --screenshots
+ *   npm run test:netlink-scraper:contract 123 --cloaking
  */
 async function testNetlinkScraperByContract() {
   console.log('='.repeat(60));
@@ -27,6 +32,8 @@ async function testNetlinkScraperByContract() {
 
   // Get contract_id from command line arguments
   const contractId = process.argv[2];
+  const withScreenshots = process.argv.includes('--screenshots');
+  const withCloaking = process.argv.includes('--cloaking');
 
   if (!contractId) {
     console.error('\n❌ Error: contract_id is required');
@@ -37,10 +44,13 @@ async function testNetlinkScraperByContract() {
     process.exit(1);
   }
 
-  console.log(`\nContract ID: ${contractId}\n`);
+  console.log(`\nContract ID: ${contractId}`);
+  console.log(`Screenshots: ${withScreenshots ? 'enabled' : 'disabled'}`);
+  console.log(`Cloaking detection: ${withCloaking ? 'enabled' : 'disabled'}\n`);
 
   const app = await NestFactory.createApplicationContext(AppModule);
   const scraperService = app.get(NetlinkScraperService);
+  const snapshotService = app.get(NetlinkSnapshotService);
 
   try {
     // Create output directory
@@ -65,6 +75,8 @@ async function testNetlinkScraperByContract() {
       delay: 500,
       enableLogging: true,
       logFilePath: logFilePath,
+      captureScreenshots: withScreenshots,
+      detectCloaking: withCloaking,
       onProgress: (current, total, url) => {
         const percentage = ((current / total) * 100).toFixed(1);
         const shortUrl = url.length > 60 ? url.substring(0, 60) + '...' : url;
@@ -79,6 +91,34 @@ async function testNetlinkScraperByContract() {
 
     console.log('\n\nScraping completed!\n');
 
+    // Copy link screenshots next to the results, one file per netlink
+    let screenshotsDir: string | undefined;
+    const withScreenshot = allResults.filter(
+      (r) => r.screenshotFile && r.netlinkId,
+    );
+    if (withScreenshot.length > 0) {
+      screenshotsDir = path.join(
+        outputDir,
+        `contract-${contractId}-screenshots-${timestamp}`,
+      );
+      await fs.mkdir(screenshotsDir, { recursive: true });
+
+      for (const result of withScreenshot) {
+        const filename = `netlink-${result.netlinkId}.png`;
+        await fs.copyFile(
+          snapshotService.getArchivePath(
+            Number(result.netlinkId),
+            result.screenshotFile,
+          ),
+          path.join(screenshotsDir, filename),
+        );
+        result.screenshot = path.relative(
+          outputDir,
+          path.join(screenshotsDir, filename),
+        );
+      }
+    }
+
     // Save results to JSON file
     const jsonFilename = `contract-${contractId}-results-${timestamp}.json`;
     const jsonFilepath = path.join(outputDir, jsonFilename);
@@ -93,19 +133,87 @@ async function testNetlinkScraperByContract() {
     console.log(`Failed: ${stats.failed}`);
     console.log(`Duration: ${(stats.duration / 1000).toFixed(2)}s`);
     console.log(`Success rate: ${stats.total > 0 ? ((stats.successful / stats.total) * 100).toFixed(1) : 0}%`);
+    const checked = allResults.filter((r) => r.sponsoredDisclosure);
+    const disclosed = checked.filter((r) => r.sponsoredDisclosure.disclosed);
+    console.log(`Labelled as sponsored: ${disclosed.length}/${checked.length}`);
     console.log('='.repeat(60));
 
     // Display files saved
     console.log('\nFiles saved:');
     console.log(`  📋 Log file: ${logFilePath}`);
     console.log(`  📄 Results JSON: ${jsonFilepath}`);
+    if (screenshotsDir) {
+      console.log(
+        `  📸 Screenshots (${withScreenshot.length}): ${screenshotsDir}`,
+      );
+    } else if (withScreenshots) {
+      console.log('  📸 Screenshots: none captured (no visible matched link)');
+    }
+
+    // Display hidden and cloaked links
+    const hidden = allResults.filter(
+      (r) => r.foundLink?.visibility?.visible === false,
+    );
+    const cloaked = allResults.filter((r) => r.cloaking?.cloaked);
+    if (hidden.length > 0 || cloaked.length > 0) {
+      console.log('\n⚠ Links not visible to readers or Google:');
+      hidden.forEach((r) => {
+        console.log(
+          `  Hidden: ${r.url} (${r.foundLink.visibility.reasons.join(', ')})`,
+        );
+      });
+      cloaked.forEach((r) => {
+        console.log(`  Cloaked: ${r.url} (${r.cloaking.type})`);
+      });
+    }
+
+    // Display link farms and pages linking to toxic sites
+    const linkFarms = allResults.filter((r) => r.outboundLinks?.linkFarm);
+    const toxicNeighbors = allResults.filter(
+      (r) =>
+        !r.outboundLinks?.linkFarm && r.outboundLinks?.toxicLinks.length > 0,
+    );
+    if (linkFarms.length > 0 || toxicNeighbors.length > 0) {
+      console.log('\n⚠ Suspicious netlink pages:');
+      linkFarms.forEach((r) => {
+        console.log(
+          `  Link farm: ${r.url} (${r.outboundLinks.linkFarmSignals.join(', ')}, ${r.outboundLinks.externalDomains} external domains)`,
+        );
+      });
+      toxicNeighbors.forEach((r) => {
+        const categories = Object.keys(r.outboundLinks.toxicCategories).join(
+          ', ',
+        );
+        console.log(
+          `  Toxic links: ${r.url} (${r.outboundLinks.toxicLinks.length} ${categories})`,
+        );
+      });
+    }
+
+    // Display articles shorter than ordered
+    const shortArticles = allResults.filter(
+      (r) => r.article?.wordCountMet === false,
+    );
+    if (shortArticles.length > 0) {
+      console.log('\n⚠ Articles shorter than ordered:');
+      shortArticles.forEach((r) => {
+        console.log(
+          `  ${r.url} (${r.article.wordCount}/${r.article.orderedWordCount} words)`,
+        );
+      });
+    }
 
     // Display error summary if any
     if (stats.errors.length > 0) {
       console.log('\n⚠ Errors encountered:');
+      Object.entries(stats.errorsByCategory).forEach(([category, count]) => {
+        console.log(`  ${category}: ${count}`);
+      });
       stats.errors.slice(0, 5).forEach((error, index) => {
         console.log(`  ${index + 1}. ${error.url}`);
-        console.log(`     Error: ${error.error}`);
+        console.log(
+          `     Error: ${error.error} (${error.category || 'unknown'})`,
+        );
       });
       if (stats.errors.length > 5) {
         console.log(`  ... and ${stats.errors.length - 5} more (see log file for details)`);
@@ -154,11 +262,12 @@ function showUsage() {
 This script scrapes netlinks filtered by contract_id with detailed logging.
 
 USAGE:
-  npm run test:netlink-scraper:contract <contract_id>
+  npm run test:netlink-scraper:contract <contract_id> [--screenshots] [--cloaking]
 
 EXAMPLES:
   npm run test:netlink-scraper:contract 123
-  npm run test:netlink-scraper:contract 456
+  npm run test:netlink-scraper:contract 456 --screenshots
+  npm run test:netlink-scraper:contract 456 --cloaking
 
 FEATURES:
   ✓ Filters netlinks by contract_id
@@ -167,10 +276,14 @@ FEATURES:
   ✓ Saves results to JSON file
   ✓ Posts results to API
   ✓ Error summary and reporting
+  ✓ Highlighted screenshots of matched links (--screenshots)
+  ✓ Hidden link detection (inline styles over HTTP, rendered styles in the browser) and Googlebot cloaking detection (--cloaking)
 
 OUTPUT FILES:
   logs/contract-<id>-<timestamp>.log       - Detailed log file
   scraped-data/contract-<id>-results.json  - Results in JSON format
+  scraped-data/contract-<id>-screenshots-<timestamp>/netlink-<netlink_id>.png
+                                           - Link screenshots (--screenshots)
 
 LOG FILE CONTENTS:
   For each netlink, the log contains:
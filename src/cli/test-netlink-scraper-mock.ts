@@ -1,6 +1,16 @@
 import { NetlinkScraperService } from '../modules/paperclub/services/netlink-scraper.service';
 import { LightpandaService } from '../common/lightpanda.service';
 import { NetlinkService } from '../modules/paperclub/services/netlink.service';
+import { HttpPageService } from '../common/http-page.service';
+import { IndexabilityService } from '../common/indexability.service';
+import { NetlinkHistoryService } from '../modules/paperclub/services/netlink-history.service';
+import { NetlinkRunCheckpointService } from '../modules/paperclub/services/netlink-run-checkpoint.service';
+import { NetlinkSnapshotService } from '../modules/paperclub/services/netlink-snapshot.service';
+import { UrlMatcherService } from '../common/url-matcher.service';
+import { RedirectResolverService } from '../common/redirect-resolver.service';
+import { OutboundLinkProfileService } from '../common/outbound-link-profile.service';
+import { SponsoredDisclosureService } from '../common/sponsored-disclosure.service';
+import { ArticleExtractorService } from '../common/article-extractor.service';
 import { ConfigService } from '@nestjs/config';
 import * as dotenv from 'dotenv';
 
@@ -25,7 +35,32 @@ async function testScraperWithMockData() {
   // Mock dashboard client (not used in this test)
   const dashboardClient = null as any;
 
-  const scraperService = new NetlinkScraperService(lightpanda, netlinkService, dashboardClient);
+  const httpPage = new HttpPageService();
+  const indexabilityService = new IndexabilityService(httpPage);
+  const historyService = new NetlinkHistoryService(configService);
+  const checkpointService = new NetlinkRunCheckpointService(configService);
+  const snapshotService = new NetlinkSnapshotService(configService);
+  const urlMatcher = new UrlMatcherService(configService);
+  const redirectResolver = new RedirectResolverService(configService);
+  const outboundLinkProfile = new OutboundLinkProfileService(configService);
+  const sponsoredDisclosureService = new SponsoredDisclosureService(httpPage);
+  const articleExtractor = new ArticleExtractorService(httpPage, configService);
+
+  const scraperService = new NetlinkScraperService(
+    lightpanda,
+    netlinkService,
+    dashboardClient,
+    httpPage,
+    indexabilityService,
+    historyService,
+    checkpointService,
+    snapshotService,
+    urlMatcher,
+    redirectResolver,
+    outboundLinkProfile,
+    sponsoredDisclosureService,
+    articleExtractor,
+  );
 
   try {
     console.log('\nTest 1: Scraping example.com and looking for example.com links');
@@ -3,6 +3,8 @@ import { AppModule } from '../app.module';
 import { NetlinkScraperService } from '../modules/paperclub/services/netlink-scraper.service';
 import { LightpandaService } from '../common/lightpanda.service';
 import { DashboardHttpClient } from '../common/dashboard-http-client.service';
+import { UrlMatcherService } from '../common/url-matcher.service';
+import { URL_MATCH_SCORES } from '../config/url-matching.config';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
@@ -51,6 +53,9 @@ async function testSingleNetlink() {
   const app = await NestFactory.createApplicationContext(AppModule);
   const lightpandaService = app.get(LightpandaService);
   const dashboardClient = app.get(DashboardHttpClient);
+  const urlMatcher = app.get(UrlMatcherService);
+  const matchPolicy = urlMatcher.getPolicy();
+  console.log(`Match policy: ${matchPolicy}\n`);
 
   try {
     console.log('Starting browser and navigating to URL...\n');
@@ -107,90 +112,14 @@ async function testSingleNetlink() {
       }, null, 2), 'utf-8');
       console.log(`✓ All links saved to: ${linksFilePath}`);
 
-      // Helper function to normalize URL
-      const normalizeUrl = (urlStr: string): string => {
-        try {
-          let normalized = urlStr.toLowerCase().trim();
-          normalized = normalized.replace(/^https?:\/\//, '');
-          normalized = normalized.replace(/^www\./, '');
-          normalized = normalized.replace(/\/$/, '');
-          normalized = normalized.split('?')[0].split('#')[0];
-          return normalized;
-        } catch (error) {
-          return urlStr.toLowerCase().trim();
-        }
-      };
-
-      // Helper function to check URL match (same logic as in scraper service)
-      const checkUrlMatch = (linkHref: string, landingPageUrl: string): { matched: boolean; matchType?: string; reason?: string } => {
-        if (!linkHref || !landingPageUrl) {
-          return { matched: false, reason: 'Empty URL' };
-        }
-
-        const normalizedLink = normalizeUrl(linkHref);
-        const normalizedLanding = normalizeUrl(landingPageUrl);
-
-        // Exact match
-        if (normalizedLink === normalizedLanding) {
-          return { matched: true, matchType: 'exact' };
-        }
-
-        // Link contains the landing page (e.g., landing is a subdirectory)
-        if (normalizedLink.includes(normalizedLanding)) {
-          return { matched: true, matchType: 'domain (link contains landing)' };
-        }
-
-        // Landing contains the link (e.g., link is shorter/partial)
-        if (normalizedLanding.includes(normalizedLink)) {
-          return { matched: true, matchType: 'subdomain (landing contains link)' };
-        }
-
-        // Extract domain and path separately for more flexible matching
-        const getDomain = (urlStr: string) => {
-          return urlStr.split('/')[0];
-        };
-
-        const getPath = (urlStr: string) => {
-          const parts = urlStr.split('/');
-          return parts.slice(1).join('/');
-        };
-
-        const linkDomain = getDomain(normalizedLink);
-        const landingDomain = getDomain(normalizedLanding);
-        const linkPath = getPath(normalizedLink);
-        const landingPath = getPath(normalizedLanding);
-
-        // Same domain check
-        if (linkDomain === landingDomain) {
-          // If domains match, check if paths are similar
-          if (linkPath === landingPath) {
-            return { matched: true, matchType: 'exact (same domain and path)' };
-          }
-          // Check if one path contains the other
-          if (linkPath && landingPath && (linkPath.includes(landingPath) || landingPath.includes(linkPath))) {
-            return { matched: true, matchType: 'partial (same domain, similar path)' };
-          }
-          // If paths don't match but domains do, still consider it a domain match
-          if (linkPath && landingPath) {
-            return { matched: true, matchType: 'domain match (same domain, different path)' };
-          }
-        }
-
-        // Check if link domain is part of landing domain or vice versa
-        if (linkDomain.includes(landingDomain) || landingDomain.includes(linkDomain)) {
-          return { matched: true, matchType: 'subdomain match' };
-        }
-
-        return { matched: false, reason: 'No match found' };
-      };
-
       console.log('\n');
       let matchFound = false;
       const matchedLinks: any[] = [];
 
       // Check each link (only log matches)
       for (const link of linksData) {
-        const matchResult = checkUrlMatch(link.href, landingPage);
+        // Same matcher as the scraper service
+        const matchResult = urlMatcher.match(link.href, landingPage, matchPolicy);
 
         if (matchResult.matched) {
           matchFound = true;
@@ -201,6 +130,7 @@ async function testSingleNetlink() {
             rel: link.rel || 'none',
             linkType,
             matchType: matchResult.matchType,
+            matchScore: matchResult.score,
           });
         }
       }
@@ -213,7 +143,7 @@ async function testSingleNetlink() {
         matchedLinks.forEach((link, idx) => {
           console.log(`\n${idx + 1}. HREF: ${link.href}`);
           console.log(`   TEXT: ${link.text.substring(0, 100)}${link.text.length > 100 ? '...' : ''}`);
-          console.log(`   MATCH TYPE: ${link.matchType}`);
+          console.log(`   MATCH TYPE: ${link.matchType} (score ${link.matchScore})`);
           console.log(`   LINK TYPE: ${link.linkType}`);
           console.log(`   REL: ${link.rel}`);
         });
@@ -252,11 +182,9 @@ async function testSingleNetlink() {
         linkType = matchedLinks[0]?.linkType || 'unknown';
       } else {
         // Check if domain exists on page
-        const landingDomain = normalizeUrl(landingPage).split('/')[0];
-        const domainFound = linksData.some(link => {
-          const linkDomain = normalizeUrl(link.href).split('/')[0];
-          return linkDomain === landingDomain;
-        });
+        const domainFound = linksData.some(
+          link => urlMatcher.match(link.href, landingPage, matchPolicy).score >= URL_MATCH_SCORES.domain,
+        );
 
         if (domainFound) {
           onlineStatus = 4; // Domain found but not exact URL
@@ -327,7 +255,8 @@ async function testSingleNetlink() {
         testedAt: new Date().toISOString(),
         matchFound,
         totalLinksFound: linksData.length,
-        normalizedLandingPage: normalizeUrl(landingPage),
+        matchPolicy,
+        canonicalLandingPage: urlMatcher.canonicalize(landingPage)?.key,
         files: {
           pageSource: sourceFilePath,
           allLinks: linksFilePath,
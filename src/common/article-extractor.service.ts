@@ -0,0 +1,468 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { HttpPageService, findLastIndex } from './http-page.service';
+import {
+  ARTICLE_BLOCK_TAGS,
+  ARTICLE_CONTAINER_TAGS,
+  ARTICLE_EXCLUDED_TAGS,
+  ARTICLE_NEGATIVE_PATTERN,
+  ARTICLE_POSITIVE_PATTERN,
+  ARTICLE_SCHEMA_TYPES,
+  DEFAULT_WORD_COUNT_TOLERANCE,
+  MIN_SCORED_BLOCK_LENGTH,
+  MODIFIED_DATE_META,
+  PUBLISHED_DATE_META,
+  detectLanguage,
+  getWords,
+} from '../config/article-extraction.config';
+
+/**
+ * Delivered article of a netlink page
+ */
+export interface ArticleInfo {
+  title?: string;
+  titleSource?: 'json_ld' | 'og:title' | 'h1' | 'title';
+  wordCount: number;
+  language?: string; // Detected from the article text (fr, en, es, de, it, pt, nl)
+  languageConfidence?: number; // 0-1
+  htmlLang?: string; // <html lang> attribute, as declared by the publisher
+  publishedAt?: string; // ISO 8601
+  modifiedAt?: string; // ISO 8601
+  dateSources: { published?: string; modified?: string }; // e.g. "json_ld", "meta article:published_time"
+  textHash: string; // sha256 of the article text, changes when the text is edited
+  container?: string; // Element holding the article, e.g. "div.entry-content"
+
+  // Comparison with the order (when the promised word count is known)
+  orderedWordCount?: number;
+  wordCountMet?: boolean;
+}
+
+/**
+ * Element tracked while tokenizing the page
+ */
+interface ArticleNode {
+  tag: string;
+  id: string;
+  className: string;
+  parent?: ArticleNode;
+  excluded: boolean; // Page chrome (nav, footer, comments...) or inside it
+  score: number;
+}
+
+/**
+ * Text of a block element (paragraph, heading, list item) or loose text of a container
+ */
+interface TextBlock {
+  tag: string;
+  text: string;
+  node: ArticleNode; // Element directly containing the block
+  excluded: boolean;
+}
+
+/**
+ * Inline elements, their text belongs to the enclosing block
+ */
+const INLINE_ELEMENTS = new Set([
+  'a',
+  'abbr',
+  'b',
+  'bdi',
+  'cite',
+  'code',
+  'del',
+  'dfn',
+  'em',
+  'font',
+  'i',
+  'ins',
+  'kbd',
+  'mark',
+  'q',
+  's',
+  'samp',
+  'small',
+  'span',
+  'strong',
+  'sub',
+  'sup',
+  'time',
+  'u',
+  'var',
+]);
+
+/**
+ * Article Extractor Service
+ *
+ * Extracts the delivered article from a netlink page, so it can be checked against the order:
+ * - main body through readability-style scoring: paragraphs score their container,
+ *   page chrome (nav, footer, comments, sidebars) is ignored
+ * - word count and language of the body
+ * - title and published/modified dates from JSON-LD and meta tags
+ * - hash of the body text, to detect later edits
+ *
+ * Environment Variables:
+ * - NETLINK_WORD_COUNT_TOLERANCE: Minimum share of the ordered word count the article must reach (default: 0.9)
+ */
+@Injectable()
+export class ArticleExtractorService {
+  private readonly wordCountTolerance: number;
+
+  constructor(
+    private readonly httpPage: HttpPageService,
+    private readonly configService: ConfigService,
+  ) {
+    this.wordCountTolerance = Number(
+      this.configService.get<number>(
+        'NETLINK_WORD_COUNT_TOLERANCE',
+        DEFAULT_WORD_COUNT_TOLERANCE,
+      ),
+    );
+  }
+
+  /**
+   * Extract the article of a page (raw or rendered HTML)
+   */
+  extract(html: string): ArticleInfo {
+    const { text, container } = this.extractBody(html);
+    const language = detectLanguage(text);
+    const schema = this.findArticleSchema(html);
+    const meta = this.getMetaTags(html);
+    const published = this.findDate(
+      schema?.datePublished,
+      meta,
+      PUBLISHED_DATE_META,
+    );
+    const modified = this.findDate(
+      schema?.dateModified,
+      meta,
+      MODIFIED_DATE_META,
+    );
+
+    return {
+      ...this.findTitle(html, schema, meta),
+      wordCount: getWords(text).length,
+      language: language?.language,
+      languageConfidence: language?.confidence,
+      htmlLang: html.match(/<html\b[^>]*\blang\s*=\s*["']?([\w-]+)/i)?.[1],
+      publishedAt: published?.date,
+      modifiedAt: modified?.date,
+      dateSources: { published: published?.source, modified: modified?.source },
+      textHash: crypto.createHash('sha256').update(text).digest('hex'),
+      container,
+    };
+  }
+
+  /**
+   * Compare the article with the word count promised in the order
+   */
+  compareWithOrder(
+    article: ArticleInfo,
+    orderedWordCount?: number,
+  ): ArticleInfo {
+    if (!orderedWordCount || orderedWordCount <= 0) return article;
+
+    return {
+      ...article,
+      orderedWordCount,
+      wordCountMet:
+        article.wordCount >=
+        Math.round(orderedWordCount * this.wordCountTolerance),
+    };
+  }
+
+  /**
+   * Text of the article body (blocks of the best scored container)
+   */
+  private extractBody(html: string): { text: string; container?: string } {
+    const source = this.httpPage.stripNonContent(html);
+    const bodyStart = Math.max(source.search(/<body\b/i), 0);
+    const root: ArticleNode = {
+      tag: 'body',
+      id: '',
+      className: '',
+      excluded: false,
+      score: 0,
+    };
+    const stack: ArticleNode[] = [root];
+    const blocks: TextBlock[] = [];
+    const nodes: ArticleNode[] = [root];
+    let block: { block: TextBlock; element: ArticleNode } | undefined;
+    let loose: TextBlock | undefined;
+
+    const appendText = (raw: string) => {
+      const text = this.httpPage.toText(raw);
+      if (!text) return;
+      if (block) {
+        block.block.text += ` ${text}`;
+        return;
+      }
+      const top = stack[stack.length - 1];
+      if (loose && loose.node === top) {
+        loose.text += ` ${text}`;
+        return;
+      }
+      loose = { tag: '#text', text, node: top, excluded: top.excluded };
+      blocks.push(loose);
+    };
+
+    const closeBlock = () => {
+      if (block && !stack.includes(block.element)) {
+        if (block.block.text.trim()) blocks.push(block.block);
+        block = undefined;
+      }
+    };
+
+    let textStart = bodyStart;
+
+    for (const token of this.httpPage.tokenizeTags(source, bodyStart)) {
+      appendText(source.slice(textStart, token.start));
+      textStart = token.end;
+
+      const { tag } = token;
+
+      if (tag === 'br') {
+        if (block) block.block.text += ' ';
+        continue;
+      }
+      if (INLINE_ELEMENTS.has(tag) || tag === 'body' || tag === 'html') {
+        continue;
+      }
+
+      if (token.closing) {
+        const index = findLastIndex(stack, (node) => node.tag === tag);
+        if (index > 0) {
+          stack.length = index;
+          loose = undefined;
+          closeBlock();
+        }
+        continue;
+      }
+
+      if (token.selfClosing) {
+        continue;
+      }
+
+      // An opening <p> implicitly closes a still-open paragraph
+      if (tag === 'p') {
+        const openParagraph = findLastIndex(stack, (node) => node.tag === 'p');
+        if (openParagraph > 0) {
+          stack.length = openParagraph;
+          closeBlock();
+        }
+      }
+
+      const id = token.attributes.id || '';
+      const className = token.attributes.class || '';
+      const parent = stack[stack.length - 1];
+      const isContentTag = tag === 'article' || tag === 'main';
+      const node: ArticleNode = {
+        tag,
+        id,
+        className,
+        parent,
+        excluded:
+          parent.excluded ||
+          ARTICLE_EXCLUDED_TAGS.includes(tag) ||
+          (!isContentTag &&
+            ARTICLE_NEGATIVE_PATTERN.test(`${id} ${className}`) &&
+            !/article|body|content|main/i.test(`${id} ${className}`)),
+        score: 0,
+      };
+      stack.push(node);
+      nodes.push(node);
+      loose = undefined;
+
+      if (ARTICLE_BLOCK_TAGS.includes(tag) && !block) {
+        block = {
+          block: { tag, text: '', node: parent, excluded: node.excluded },
+          element: node,
+        };
+      }
+    }
+    appendText(source.slice(textStart));
+    if (block?.block.text.trim()) blocks.push(block.block);
+
+    // Readability scoring: each block scores its container, half for the grand-container
+    for (const { tag, text, node, excluded } of blocks) {
+      if (excluded) continue;
+      const length = text.trim().length;
+      if (length < MIN_SCORED_BLOCK_LENGTH && !/^h[2-6]$/.test(tag)) continue;
+
+      const container = this.getContainer(node);
+      if (!container) continue;
+      container.score += length;
+      const grandContainer = this.getContainer(container.parent);
+      if (grandContainer) grandContainer.score += length / 2;
+    }
+
+    const best = nodes
+      .filter((node) => node.score > 0 && !node.excluded)
+      .map((node) => ({ node, score: node.score * this.getWeight(node) }))
+      .sort((a, b) => b.score - a.score)[0]?.node;
+
+    const isInside = (node: ArticleNode) => {
+      for (
+        let current: ArticleNode | undefined = node;
+        current;
+        current = current.parent
+      ) {
+        if (current === best) return true;
+      }
+      return false;
+    };
+
+    const text = blocks
+      .filter(
+        (textBlock) =>
+          !textBlock.excluded && (!best || isInside(textBlock.node)),
+      )
+      .map((textBlock) => textBlock.text.replace(/\s+/g, ' ').trim())
+      .filter(Boolean)
+      .join('\n');
+
+    return { text, container: best ? this.describeNode(best) : undefined };
+  }
+
+  /**
+   * Nearest element (itself included) that can hold an article body
+   */
+  private getContainer(node: ArticleNode | undefined): ArticleNode | undefined {
+    for (let current = node; current; current = current.parent) {
+      if (ARTICLE_CONTAINER_TAGS.includes(current.tag)) return current;
+    }
+    return undefined;
+  }
+
+  /**
+   * Score weight of a container from its tag and class/id
+   */
+  private getWeight(node: ArticleNode): number {
+    const label = `${node.id} ${node.className}`;
+    let weight = 1;
+    if (
+      node.tag === 'article' ||
+      node.tag === 'main' ||
+      ARTICLE_POSITIVE_PATTERN.test(label)
+    ) {
+      weight *= 1.25;
+    }
+    if (ARTICLE_NEGATIVE_PATTERN.test(label)) weight *= 0.5;
+    return weight;
+  }
+
+  /**
+   * e.g. "div#main.entry-content"
+   */
+  private describeNode(node: ArticleNode): string {
+    const className = node.className.trim().split(/\s+/)[0];
+    return `${node.tag}${node.id ? `#${node.id}` : ''}${className ? `.${className}` : ''}`;
+  }
+
+  /**
+   * First JSON-LD node describing the article (specific article types before WebPage)
+   */
+  private findArticleSchema(html: string): Record<string, any> | undefined {
+    const candidates: Record<string, any>[] = [];
+    const scriptPattern =
+      /<script\b[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+    let script: RegExpExecArray | null;
+
+    while ((script = scriptPattern.exec(html)) !== null) {
+      let data: any;
+      try {
+        data = JSON.parse(script[1]);
+      } catch {
+        continue;
+      }
+
+      const visit = (node: any) => {
+        if (Array.isArray(node)) {
+          node.forEach(visit);
+          return;
+        }
+        if (!node || typeof node !== 'object') return;
+        const types: string[] = [].concat(node['@type'] || []);
+        if (types.some((type) => ARTICLE_SCHEMA_TYPES.includes(type))) {
+          candidates.push(node);
+        }
+        if (node['@graph']) visit(node['@graph']);
+      };
+      visit(data);
+    }
+
+    return (
+      candidates.find(
+        (node) => ![].concat(node['@type']).includes('WebPage'),
+      ) || candidates[0]
+    );
+  }
+
+  /**
+   * Meta tag contents keyed by lowercased property, name or itemprop
+   */
+  private getMetaTags(html: string): Map<string, string> {
+    const meta = new Map<string, string>();
+    this.httpPage.parseTags(html, 'meta').forEach((tag) => {
+      const key = (
+        tag.property ||
+        tag.name ||
+        tag.itemprop ||
+        ''
+      ).toLowerCase();
+      if (key && tag.content && !meta.has(key))
+        meta.set(key, tag.content.trim());
+    });
+    return meta;
+  }
+
+  private findTitle(
+    html: string,
+    schema: Record<string, any> | undefined,
+    meta: Map<string, string>,
+  ): Pick<ArticleInfo, 'title' | 'titleSource'> {
+    if (typeof schema?.headline === 'string' && schema.headline.trim()) {
+      return { title: schema.headline.trim(), titleSource: 'json_ld' };
+    }
+    if (meta.get('og:title')) {
+      return { title: meta.get('og:title'), titleSource: 'og:title' };
+    }
+
+    const source = this.httpPage.stripNonContent(html);
+    const h1 = source.match(/<h1\b[^>]*>([\s\S]*?)<\/h1>/i);
+    if (h1 && this.httpPage.toText(h1[1])) {
+      return { title: this.httpPage.toText(h1[1]), titleSource: 'h1' };
+    }
+    const title = source.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i);
+    if (title && this.httpPage.toText(title[1])) {
+      return { title: this.httpPage.toText(title[1]), titleSource: 'title' };
+    }
+
+    return {};
+  }
+
+  /**
+   * First valid date from JSON-LD, then from the meta tags in priority order
+   */
+  private findDate(
+    schemaValue: unknown,
+    meta: Map<string, string>,
+    metaKeys: string[],
+  ): { date: string; source: string } | undefined {
+    const schemaDate = this.toIsoDate(schemaValue);
+    if (schemaDate) return { date: schemaDate, source: 'json_ld' };
+
+    for (const key of metaKeys) {
+      const date = this.toIsoDate(meta.get(key));
+      if (date) return { date, source: `meta ${key}` };
+    }
+
+    return undefined;
+  }
+
+  private toIsoDate(value: unknown): string | undefined {
+    if (typeof value !== 'string' || !value.trim()) return undefined;
+    const date = new Date(value.trim());
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+  }
+}
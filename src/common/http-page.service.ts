@@ -0,0 +1,516 @@
+import { Injectable, Logger } from '@nestjs/common';
+import axios, { AxiosInstance } from 'axios';
+import { LinkAncestor } from '../config/link-placement.config';
+import {
+  LinkHiddenReason,
+  LinkVisibility,
+  getInlineHiddenReasons,
+} from '../config/link-visibility.config';
+
+/**
+ * Raw anchor data collected from a page (browser DOM or raw HTML)
+ */
+export interface ExtractedLink {
+  href: string;
+  text: string; // Anchor text, the image alt text for image links
+  outerHTML: string;
+  rel: string;
+  image?: LinkImage; // Set for image links (anchor without text wrapping an image)
+  ancestors: LinkAncestor[]; // Nearest ancestor first, up to <body>
+  paragraphIndex: number; // -1 when the anchor is not inside a paragraph
+  offsetTop?: number; // Only known when the page was rendered in a browser
+  visibility?: LinkVisibility; // In raw HTML, only set when inline signals hide the link
+  source?: LinkSource; // Only known when the page was rendered in a browser
+}
+
+/**
+ * Where a link was found in a rendered page
+ * - document: the top document
+ * - shadow_root: the open shadow root of a web component (shadowHost)
+ * - iframe: a same-origin iframe (frameUrl), possibly inside one of its shadow roots
+ */
+export type LinkSourceContext = 'document' | 'shadow_root' | 'iframe';
+
+export interface LinkSource {
+  context: LinkSourceContext;
+  shadowHost?: string; // Host element of the shadow root, e.g. "article-body#main"
+  frameUrl?: string;
+}
+
+/**
+ * Image of an image link
+ * - img: <img> element
+ * - picture: <picture> element (src is the selected or fallback <img> source)
+ * - svg: inline SVG, alt is its aria-label or <title>
+ */
+export type LinkImageKind = 'img' | 'picture' | 'svg';
+
+export interface LinkImage {
+  kind: LinkImageKind;
+  alt: string; // Empty when the image has no alt text
+  src?: string; // Resolved image URL, none for inline SVG
+  width?: number; // Rendered size in a browser, width/height attributes in raw HTML
+  height?: number;
+}
+
+/**
+ * Attributes holding the real image URL of lazy-loaded images
+ */
+export const LAZY_IMAGE_SRC_ATTRIBUTES = [
+  'data-src',
+  'data-lazy-src',
+  'data-original',
+];
+
+/**
+ * Plain HTTP page fetch result
+ */
+export interface HttpPageResult {
+  url: string;
+  finalUrl: string;
+  statusCode: number;
+  headers: Record<string, string>;
+  contentType: string;
+  html: string;
+}
+
+/**
+ * Tag found while tokenizing HTML
+ * Text between two tags is source.slice(previous.end, next.start)
+ */
+export interface HtmlTagToken {
+  tag: string; // Lowercase tag name
+  closing: boolean;
+  selfClosing: boolean; // Void element or <tag />, never closed
+  attributes: Record<string, string>; // Lowercase-keyed, empty for closing tags
+  start: number; // Offsets of the tag in the source
+  end: number;
+}
+
+/**
+ * Open element tracked while tokenizing HTML
+ */
+interface OpenElement extends LinkAncestor {
+  paragraphIndex: number; // Index of this <p>, -1 for other elements
+  paragraphCountAtOpen: number;
+  hiddenReasons: LinkHiddenReason[]; // Inline signals hiding the element and its content
+}
+
+const VOID_ELEMENTS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'param',
+  'source',
+  'track',
+  'wbr',
+]);
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/**
+ * HTTP Page Service
+ *
+ * Fetches pages over plain HTTP (no browser) and parses anchors from the raw HTML.
+ * Used as a fast path before launching Chromium for static pages.
+ *
+ * Features:
+ * - Browser-like request headers
+ * - Redirect following with final URL tracking
+ * - Lightweight HTML tokenizer producing the same link data as the browser extraction
+ * - Heuristics to detect pages that need JavaScript rendering
+ */
+@Injectable()
+export class HttpPageService {
+  private readonly logger = new Logger(HttpPageService.name);
+  private readonly axiosInstance: AxiosInstance;
+
+  constructor() {
+    this.axiosInstance = axios.create({
+      maxRedirects: 5,
+      maxContentLength: 5 * 1024 * 1024, // 5 MB
+      responseType: 'text',
+      // Keep the raw body, never parse JSON
+      transformResponse: [(data) => data],
+      // Every status is a valid outcome for the caller to inspect
+      validateStatus: () => true,
+      headers: {
+        'User-Agent':
+          'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+        Accept:
+          'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+        'Accept-Language': 'fr-FR,fr;q=0.9,en-US;q=0.8,en;q=0.7',
+      },
+    });
+  }
+
+  /**
+   * Fetch a page over plain HTTP
+   */
+  async fetchPage(
+    url: string,
+    options?: { timeout?: number; headers?: Record<string, string> },
+  ): Promise<HttpPageResult> {
+    const response = await this.axiosInstance.get<string>(url, {
+      timeout: options?.timeout || 15000,
+      headers: options?.headers,
+    });
+
+    const headers: Record<string, string> = {};
+    Object.entries(response.headers || {}).forEach(([key, value]) => {
+      headers[key.toLowerCase()] = Array.isArray(value)
+        ? value.join(', ')
+        : String(value);
+    });
+
+    const finalUrl = response.request?.res?.responseUrl || url;
+    this.logger.debug(`HTTP ${response.status} ${url} -> ${finalUrl}`);
+
+    return {
+      url,
+      finalUrl,
+      statusCode: response.status,
+      headers,
+      contentType: headers['content-type'] || '',
+      html: typeof response.data === 'string' ? response.data : '',
+    };
+  }
+
+  /**
+   * Parse all anchors from raw HTML with their DOM ancestry
+   */
+  extractLinks(html: string, baseUrl: string): ExtractedLink[] {
+    const source = this.stripNonContent(html);
+    const links: ExtractedLink[] = [];
+    const stack: OpenElement[] = [];
+    let paragraphCount = 0;
+    let skipUntil = 0;
+
+    for (const token of this.tokenizeTags(source)) {
+      const { tag, attributes } = token;
+      if (token.start < skipUntil) continue;
+
+      if (token.closing) {
+        const index = findLastIndex(stack, (el) => el.tag === tag);
+        if (index >= 0) stack.length = index;
+        continue;
+      }
+
+      if (tag === 'a') {
+        // </a> only, not </abbr>, </aside>, </article>...
+        const closePattern = /<\/a\s*>/gi;
+        closePattern.lastIndex = token.end;
+        const close = closePattern.exec(source);
+        const closeIndex = close ? close.index : -1;
+        const end = close ? closePattern.lastIndex : -1;
+        const outerHTML =
+          end > 0
+            ? source.slice(token.start, end)
+            : source.slice(token.start, token.end);
+        const inner =
+          closeIndex >= 0 ? source.slice(token.end, closeIndex) : '';
+        // SVG <title> text is an image label, not anchor text
+        const text = this.toText(inner.replace(/<svg\b[\s\S]*?<\/svg>/gi, ' '));
+        const image = text ? undefined : this.extractImage(inner, baseUrl);
+        const hiddenReasons = Array.from(
+          new Set([
+            ...stack.flatMap((el) => el.hiddenReasons),
+            ...getInlineHiddenReasons(attributes),
+          ]),
+        );
+
+        links.push({
+          href: this.resolveUrl(attributes.href, baseUrl),
+          text: image ? image.alt : text,
+          outerHTML,
+          rel: attributes.rel || '',
+          image,
+          ancestors: stack
+            .filter((el) => el.tag !== 'html' && el.tag !== 'body')
+            .reverse()
+            .map(({ tag, id, className, role }) => ({
+              tag,
+              id,
+              className,
+              role,
+            })),
+          paragraphIndex: this.getParagraphIndex(stack),
+          visibility: hiddenReasons.length
+            ? { visible: false, reasons: hiddenReasons }
+            : undefined,
+        });
+
+        // Skip the anchor body so nested markup does not alter the stack
+        if (end > 0) skipUntil = end;
+        continue;
+      }
+
+      if (token.selfClosing) {
+        continue;
+      }
+
+      // An opening <p> implicitly closes a still-open paragraph
+      if (tag === 'p') {
+        const openParagraph = findLastIndex(stack, (el) => el.tag === 'p');
+        if (openParagraph >= 0) stack.length = openParagraph;
+      }
+
+      stack.push({
+        tag,
+        id: attributes.id || '',
+        className: attributes.class || '',
+        role: attributes.role || '',
+        paragraphIndex: tag === 'p' ? paragraphCount : -1,
+        paragraphCountAtOpen: paragraphCount,
+        hiddenReasons: getInlineHiddenReasons(attributes),
+      });
+
+      if (tag === 'p') paragraphCount++;
+    }
+
+    return links;
+  }
+
+  /**
+   * Tokenize the tags of an HTML source, starting at an optional offset
+   */
+  *tokenizeTags(source: string, from: number = 0): Generator<HtmlTagToken> {
+    const tagPattern =
+      /<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>/g;
+    tagPattern.lastIndex = from;
+    let match: RegExpExecArray | null;
+
+    while ((match = tagPattern.exec(source)) !== null) {
+      const closing = match[1] === '/';
+      const tag = match[2].toLowerCase();
+      const rawAttributes = match[3] || '';
+
+      yield {
+        tag,
+        closing,
+        selfClosing:
+          !closing && (VOID_ELEMENTS.has(tag) || /\/\s*$/.test(rawAttributes)),
+        attributes: closing ? {} : this.parseAttributes(rawAttributes),
+        start: match.index,
+        end: tagPattern.lastIndex,
+      };
+    }
+  }
+
+  /**
+   * Check whether the raw HTML looks like an application shell
+   * that only renders its content with JavaScript
+   */
+  looksJavaScriptRendered(html: string, linkCount: number): boolean {
+    const source = this.stripNonContent(html);
+    const bodyMatch = source.match(/<body[^>]*>([\s\S]*)<\/body>/i);
+    const bodyText = this.toText(bodyMatch ? bodyMatch[1] : source);
+
+    // Empty mount points used by SPA frameworks
+    if (
+      /<div[^>]+id=["'](root|app|__next|__nuxt)["'][^>]*>\s*<\/div>/i.test(
+        source,
+      )
+    ) {
+      return true;
+    }
+
+    if (/<noscript[^>]*>[^<]*(enable|activer)\s+javascript/i.test(html)) {
+      return bodyText.length < 1000;
+    }
+
+    return bodyText.length < 500 || linkCount < 5;
+  }
+
+  /**
+   * Get the attributes of every occurrence of a tag (e.g. all <meta> or <link> tags)
+   */
+  parseTags(html: string, tagName: string): Array<Record<string, string>> {
+    const source = this.stripNonContent(html);
+    const pattern = new RegExp(
+      `<${tagName}\\b((?:"[^"]*"|'[^']*'|[^'">])*)>`,
+      'gi',
+    );
+    const tags: Array<Record<string, string>> = [];
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(source)) !== null) {
+      tags.push(this.parseAttributes(match[1] || ''));
+    }
+
+    return tags;
+  }
+
+  /**
+   * Get the text content of an HTML fragment
+   */
+  toText(html: string): string {
+    return this.decodeEntities(html.replace(/<[^>]*>/g, ' '))
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * Remove comments, scripts and styles so they are not tokenized
+   */
+  stripNonContent(html: string): string {
+    return html
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<script\b[^>]*>[\s\S]*?<\/script>/gi, '')
+      .replace(/<style\b[^>]*>[\s\S]*?<\/style>/gi, '');
+  }
+
+  /**
+   * Image wrapped by an anchor body (undefined when there is none)
+   */
+  private extractImage(inner: string, baseUrl: string): LinkImage | undefined {
+    const img = inner.match(/<img\b((?:"[^"]*"|'[^']*'|[^'">])*)>/i);
+    if (img) {
+      const attributes = this.parseAttributes(img[1] || '');
+      const lazySrc = LAZY_IMAGE_SRC_ATTRIBUTES.map(
+        (name) => attributes[name],
+      ).find(Boolean);
+      const srcsetSrc = (attributes.srcset || '').trim().split(/\s+/)[0];
+      const src =
+        attributes.src && !attributes.src.startsWith('data:')
+          ? attributes.src
+          : lazySrc || srcsetSrc || attributes.src;
+
+      return {
+        kind: /<picture\b/i.test(inner.slice(0, img.index)) ? 'picture' : 'img',
+        alt: (attributes.alt || '').trim(),
+        src: src ? this.resolveUrl(src, baseUrl) : undefined,
+        width: this.parseDimension(attributes.width),
+        height: this.parseDimension(attributes.height),
+      };
+    }
+
+    const svg = inner.match(
+      /<svg\b((?:"[^"]*"|'[^']*'|[^'">])*)>([\s\S]*?)<\/svg>/i,
+    );
+    if (svg) {
+      const attributes = this.parseAttributes(svg[1] || '');
+      const title = svg[2].match(/<title\b[^>]*>([\s\S]*?)<\/title>/i);
+
+      return {
+        kind: 'svg',
+        alt: (
+          attributes['aria-label'] || (title ? this.toText(title[1]) : '')
+        ).trim(),
+        width: this.parseDimension(attributes.width),
+        height: this.parseDimension(attributes.height),
+      };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Pixel value of a width/height attribute ("300", "300px"), undefined otherwise
+   */
+  private parseDimension(value: string | undefined): number | undefined {
+    const match = (value || '').trim().match(/^(\d+(?:\.\d+)?)(px)?$/i);
+    return match ? Math.round(parseFloat(match[1])) : undefined;
+  }
+
+  /**
+   * Parse tag attributes into a lowercase-keyed map
+   */
+  private parseAttributes(raw: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const pattern =
+      /([^\s=/"'>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(raw)) !== null) {
+      const name = match[1].toLowerCase();
+      if (name in attributes) continue;
+      attributes[name] = this.decodeEntities(
+        match[2] ?? match[3] ?? match[4] ?? '',
+      );
+    }
+
+    return attributes;
+  }
+
+  /**
+   * Index of the enclosing paragraph, relative to the article/main container
+   */
+  private getParagraphIndex(stack: OpenElement[]): number {
+    const paragraph = [...stack].reverse().find((el) => el.tag === 'p');
+    if (!paragraph) return -1;
+
+    const container = [...stack]
+      .reverse()
+      .find(
+        (el) =>
+          el.tag === 'article' ||
+          el.tag === 'main' ||
+          el.role.toLowerCase() === 'main',
+      );
+
+    return container
+      ? paragraph.paragraphIndex - container.paragraphCountAtOpen
+      : paragraph.paragraphIndex;
+  }
+
+  /**
+   * Resolve an href against the page URL (same as HTMLAnchorElement.href)
+   */
+  private resolveUrl(href: string | undefined, baseUrl: string): string {
+    if (href === undefined) return '';
+    try {
+      return new URL(href.trim(), baseUrl).href;
+    } catch {
+      return href;
+    }
+  }
+
+  /**
+   * Decode the most common HTML entities
+   */
+  private decodeEntities(value: string): string {
+    return value.replace(
+      /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi,
+      (entity, code: string) => {
+        if (code[0] === '#') {
+          const point =
+            code[1].toLowerCase() === 'x'
+              ? parseInt(code.slice(2), 16)
+              : parseInt(code.slice(1), 10);
+          return Number.isNaN(point) || point > 0x10ffff
+            ? entity
+            : String.fromCodePoint(point);
+        }
+        return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+      },
+    );
+  }
+}
+
+/**
+ * Array.findLastIndex equivalent (not available on ES2021 target)
+ */
+export function findLastIndex<T>(
+  items: T[],
+  predicate: (item: T) => boolean,
+): number {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (predicate(items[i])) return i;
+  }
+  return -1;
+}
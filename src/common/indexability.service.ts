@@ -0,0 +1,353 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { HttpPageService } from './http-page.service';
+
+/**
+ * Reasons a page is not indexable
+ */
+export type IndexabilityIssue =
+  | 'noindex_meta'
+  | 'noindex_header'
+  | 'canonical_elsewhere'
+  | 'robots_txt_disallowed';
+
+/**
+ * robots.txt verdict for Googlebot
+ */
+export interface RobotsTxtVerdict {
+  checked: boolean; // false when robots.txt could not be fetched (5xx / network error)
+  allowed: boolean;
+  matchedRule?: string; // e.g. "disallow: /private/"
+  error?: string;
+}
+
+/**
+ * Indexability audit of a page
+ */
+export interface IndexabilityAudit {
+  indexable: boolean;
+  issues: IndexabilityIssue[];
+  metaRobots?: string; // Combined content of robots/googlebot meta tags
+  xRobotsTag?: string;
+  noindex: boolean;
+  nofollowPage: boolean; // Page-level nofollow (all links on the page)
+  canonicalUrl?: string;
+  canonicalPointsElsewhere: boolean;
+  robotsTxt: RobotsTxtVerdict;
+}
+
+/**
+ * Parsed robots.txt group
+ */
+interface RobotsGroup {
+  userAgents: string[];
+  rules: Array<{ allow: boolean; path: string }>;
+}
+
+/**
+ * Indexability Service
+ *
+ * Checks whether Google can index a page:
+ * - meta robots / googlebot tags
+ * - X-Robots-Tag response headers
+ * - canonical URL pointing to another page
+ * - robots.txt rules for Googlebot (cached per origin)
+ */
+@Injectable()
+export class IndexabilityService {
+  private readonly logger = new Logger(IndexabilityService.name);
+  private readonly userAgent = 'googlebot';
+  private readonly robotsCache = new Map<
+    string,
+    Promise<{ groups: RobotsGroup[] | null; error?: string }>
+  >();
+
+  constructor(private readonly httpPage: HttpPageService) {}
+
+  /**
+   * Audit the indexability of a page from its HTML and response headers
+   *
+   * @param pageUrl - Final URL of the page (after redirects)
+   */
+  async audit(
+    pageUrl: string,
+    html: string,
+    headers?: Record<string, string>,
+  ): Promise<IndexabilityAudit> {
+    const issues: IndexabilityIssue[] = [];
+
+    // Meta robots (generic and Googlebot specific)
+    const metaRobots = this.httpPage
+      .parseTags(html, 'meta')
+      .filter((tag) =>
+        ['robots', this.userAgent].includes((tag.name || '').toLowerCase()),
+      )
+      .map((tag) => tag.content || '')
+      .filter(Boolean)
+      .join(', ');
+    const metaDirectives = this.parseDirectives(metaRobots);
+
+    // X-Robots-Tag header, only directives for all agents or Googlebot
+    const xRobotsTag = headers?.['x-robots-tag'];
+    const headerDirectives = this.parseXRobotsTag(xRobotsTag || '');
+
+    if (metaDirectives.has('noindex') || metaDirectives.has('none')) {
+      issues.push('noindex_meta');
+    }
+    if (headerDirectives.has('noindex') || headerDirectives.has('none')) {
+      issues.push('noindex_header');
+    }
+
+    // Canonical URL
+    const canonicalHref = this.httpPage
+      .parseTags(html, 'link')
+      .find((tag) =>
+        (tag.rel || '').toLowerCase().split(/\s+/).includes('canonical'),
+      )?.href;
+    const canonicalUrl = canonicalHref
+      ? this.resolveUrl(canonicalHref, pageUrl)
+      : undefined;
+    const canonicalPointsElsewhere =
+      !!canonicalUrl &&
+      this.comparableUrl(canonicalUrl) !== this.comparableUrl(pageUrl);
+
+    if (canonicalPointsElsewhere) {
+      issues.push('canonical_elsewhere');
+    }
+
+    // robots.txt
+    const robotsTxt = await this.checkRobotsTxt(pageUrl);
+    if (robotsTxt.checked && !robotsTxt.allowed) {
+      issues.push('robots_txt_disallowed');
+    }
+
+    const nofollowPage = [metaDirectives, headerDirectives].some(
+      (directives) => directives.has('nofollow') || directives.has('none'),
+    );
+
+    return {
+      indexable: issues.length === 0,
+      issues,
+      metaRobots: metaRobots || undefined,
+      xRobotsTag,
+      noindex:
+        issues.includes('noindex_meta') || issues.includes('noindex_header'),
+      nofollowPage,
+      canonicalUrl,
+      canonicalPointsElsewhere,
+      robotsTxt,
+    };
+  }
+
+  /**
+   * Check whether Googlebot may crawl a URL according to the host's robots.txt
+   */
+  async checkRobotsTxt(url: string): Promise<RobotsTxtVerdict> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return { checked: false, allowed: true, error: 'Invalid URL' };
+    }
+
+    if (!this.robotsCache.has(parsed.origin)) {
+      this.robotsCache.set(parsed.origin, this.fetchRobotsTxt(parsed.origin));
+    }
+
+    const { groups, error } = await this.robotsCache.get(parsed.origin);
+    if (!groups) {
+      return { checked: !error, allowed: true, error };
+    }
+
+    const path = `${parsed.pathname}${parsed.search}`;
+    const rules = this.selectGroup(groups)?.rules || [];
+
+    // Longest matching rule wins, allow wins ties
+    let best: { allow: boolean; path: string } | undefined;
+    for (const rule of rules) {
+      if (!rule.path || !this.matchesRule(path, rule.path)) continue;
+      if (
+        !best ||
+        rule.path.length > best.path.length ||
+        (rule.path.length === best.path.length && rule.allow)
+      ) {
+        best = rule;
+      }
+    }
+
+    return {
+      checked: true,
+      allowed: best ? best.allow : true,
+      matchedRule: best
+        ? `${best.allow ? 'allow' : 'disallow'}: ${best.path}`
+        : undefined,
+    };
+  }
+
+  /**
+   * Fetch and parse robots.txt for an origin
+   * A missing robots.txt (4xx) allows everything, 5xx/network errors leave the verdict unchecked
+   */
+  private async fetchRobotsTxt(
+    origin: string,
+  ): Promise<{ groups: RobotsGroup[] | null; error?: string }> {
+    try {
+      const response = await this.httpPage.fetchPage(`${origin}/robots.txt`, {
+        timeout: 10000,
+      });
+
+      if (response.statusCode >= 500) {
+        return {
+          groups: null,
+          error: `robots.txt HTTP ${response.statusCode}`,
+        };
+      }
+      if (response.statusCode >= 400) {
+        return { groups: null };
+      }
+
+      return { groups: this.parseRobotsTxt(response.html) };
+    } catch (error) {
+      this.logger.debug(
+        `Failed to fetch robots.txt for ${origin}: ${error.message}`,
+      );
+      return { groups: null, error: error.message };
+    }
+  }
+
+  /**
+   * Parse robots.txt into user-agent groups
+   */
+  private parseRobotsTxt(content: string): RobotsGroup[] {
+    const groups: RobotsGroup[] = [];
+    let current: RobotsGroup | null = null;
+    let lastWasAgent = false;
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      const separator = line.indexOf(':');
+      if (separator < 0) continue;
+
+      const field = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+
+      if (field === 'user-agent') {
+        // Consecutive user-agent lines share the same group
+        if (!current || !lastWasAgent) {
+          current = { userAgents: [], rules: [] };
+          groups.push(current);
+        }
+        current.userAgents.push(value.toLowerCase());
+        lastWasAgent = true;
+      } else if ((field === 'allow' || field === 'disallow') && current) {
+        current.rules.push({ allow: field === 'allow', path: value });
+        lastWasAgent = false;
+      } else {
+        lastWasAgent = false;
+      }
+    }
+
+    return groups;
+  }
+
+  /**
+   * Select the group for Googlebot, falling back to the wildcard group
+   */
+  private selectGroup(groups: RobotsGroup[]): RobotsGroup | undefined {
+    const specific = groups.filter((group) =>
+      group.userAgents.some(
+        (agent) => agent !== '*' && this.userAgent.startsWith(agent),
+      ),
+    );
+    if (specific.length > 0) {
+      return {
+        userAgents: [this.userAgent],
+        rules: specific.flatMap((g) => g.rules),
+      };
+    }
+
+    const wildcard = groups.filter((group) => group.userAgents.includes('*'));
+    if (wildcard.length > 0) {
+      return { userAgents: ['*'], rules: wildcard.flatMap((g) => g.rules) };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Match a path against a robots.txt rule (supports * and $)
+   */
+  private matchesRule(path: string, rule: string): boolean {
+    const escaped = rule
+      .replace(/[.+?^{}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '.*');
+    return new RegExp(`^${escaped}`).test(path);
+  }
+
+  /**
+   * Parse a comma separated robots directive list
+   */
+  private parseDirectives(content: string): Set<string> {
+    return new Set(
+      content
+        .toLowerCase()
+        .split(',')
+        .map((directive) => directive.trim())
+        .filter(Boolean),
+    );
+  }
+
+  /**
+   * Parse X-Robots-Tag, keeping directives for all agents and Googlebot
+   * e.g. "noindex, googlebot: nofollow, otherbot: noindex"
+   */
+  private parseXRobotsTag(value: string): Set<string> {
+    const directives = new Set<string>();
+    const valueDirectives = [
+      'unavailable_after',
+      'max-snippet',
+      'max-image-preview',
+      'max-video-preview',
+    ];
+    let agent = '*';
+
+    for (const part of value.toLowerCase().split(',')) {
+      let directive = part.trim();
+      const prefixed = directive.match(/^([a-z0-9_-]+)\s*:\s*(.*)$/);
+
+      if (prefixed && !valueDirectives.includes(prefixed[1])) {
+        agent = prefixed[1];
+        directive = prefixed[2].trim();
+      }
+
+      if (directive && (agent === '*' || agent === this.userAgent)) {
+        directives.add(directive);
+      }
+    }
+
+    return directives;
+  }
+
+  /**
+   * Resolve a possibly relative URL against the page URL
+   */
+  private resolveUrl(href: string, baseUrl: string): string {
+    try {
+      return new URL(href.trim(), baseUrl).href;
+    } catch {
+      return href;
+    }
+  }
+
+  /**
+   * Normalize a URL for canonical comparison (scheme, host case, fragment, trailing slash)
+   */
+  private comparableUrl(url: string): string {
+    try {
+      const parsed = new URL(url);
+      const path = parsed.pathname.replace(/\/+$/, '') || '/';
+      return `${parsed.host.toLowerCase()}${path}${parsed.search}`;
+    } catch {
+      return url.trim().toLowerCase();
+    }
+  }
+}
@@ -1,8 +1,15 @@
 import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { Browser, BrowserContext, Page } from 'playwright';
+import { Browser, BrowserContext, Frame, Page } from 'playwright';
 import { chromium } from 'playwright-extra';
 import StealthPlugin from 'puppeteer-extra-plugin-stealth';
+import {
+  CONSENT_BANNER_SIGNATURES,
+  ConsentBannerSignature,
+  ConsentDismissal,
+  GENERIC_ACCEPT_LABELS,
+  GENERIC_CONSENT_KEYWORDS,
+} from '../config/consent-banners.config';
 
 // Apply stealth plugin to chromium
 chromium.use(StealthPlugin());
@@ -20,17 +27,31 @@ chromium.use(StealthPlugin());
  * - Browser context and page creation utilities
  * - Headless mode for better performance
  * - Human-like behavior simulation (random delays, mouse movements)
+ * - Cookie consent banner auto-dismiss (Didomi, Axeptio, tarteaucitron, OneTrust...)
+ *
+ * Environment Variables:
+ * - BROWSER_HEADLESS: Run the browser headless (default: true)
+ * - BROWSER_DISMISS_CONSENT: Accept cookie consent banners before extraction (default: true)
+ * - BROWSER_CONSENT_WAIT_MS: How long to wait for a late consent banner when none is displayed yet (default: 1000)
  */
 @Injectable()
 export class LightpandaService implements OnModuleDestroy {
   private readonly logger = new Logger(LightpandaService.name);
   private browser: Browser | null = null;
   private readonly headless: boolean;
+  private readonly dismissConsent: boolean;
+  private readonly consentWaitMs: number;
   private contextCreationLock: Promise<void> = Promise.resolve();
 
   constructor(private readonly configService: ConfigService) {
     // Configuration for Playwright browser
     this.headless = this.configService.get<boolean>('BROWSER_HEADLESS', true);
+    this.dismissConsent =
+      String(this.configService.get('BROWSER_DISMISS_CONSENT', 'true')) !==
+      'false';
+    this.consentWaitMs = Number(
+      this.configService.get<number>('BROWSER_CONSENT_WAIT_MS', 1000),
+    );
   }
 
   /**
@@ -225,6 +246,303 @@ export class LightpandaService implements OnModuleDestroy {
     await this.simulateHumanBehavior(page);
   }
 
+  /**
+   * Scroll through the whole page so lazy-loaded sections are rendered, then back to the top
+   * The page may grow while scrolling (infinite scroll), maxScrolls bounds the walk.
+   * Returns the number of scroll steps
+   */
+  async scrollThroughPage(
+    page: Page,
+    options?: { maxScrolls?: number; stepDelay?: number },
+  ): Promise<number> {
+    const maxScrolls = options?.maxScrolls ?? 15;
+    const stepDelay = options?.stepDelay ?? 300;
+    let scrolls = 0;
+
+    try {
+      while (scrolls < maxScrolls) {
+        scrolls++;
+        const atBottom = await page.evaluate(() => {
+          window.scrollBy(0, window.innerHeight);
+          return (
+            window.scrollY + window.innerHeight >=
+            document.documentElement.scrollHeight - 2
+          );
+        });
+        await page.waitForTimeout(stepDelay);
+        if (atBottom) break;
+      }
+
+      // Content requested by the last scroll steps
+      await page
+        .waitForLoadState('networkidle', { timeout: 2000 })
+        .catch(() => undefined);
+      await page.evaluate(() => window.scrollTo(0, 0));
+    } catch (error) {
+      this.logger.warn(
+        `Error scrolling through ${page.url()}: ${error.message}`,
+      );
+    }
+
+    return scrolls;
+  }
+
+  /**
+   * Accept the cookie consent banner of a page, if any
+   * Known CMPs are accepted through their "accept all" button, then their JS API.
+   * Unknown banners fall back to a button labelled "Accepter"/"Accept all" inside a
+   * cookie notice, and a known banner that cannot be accepted is removed from the DOM.
+   * Returns null when no banner was found (or when disabled with BROWSER_DISMISS_CONSENT=false)
+   */
+  async dismissConsentBanners(
+    page: Page,
+    options?: { timeout?: number },
+  ): Promise<ConsentDismissal | null> {
+    if (!this.dismissConsent) {
+      return null;
+    }
+
+    const timeout = options?.timeout ?? 3000;
+
+    try {
+      // Banners are often injected after DOMContentLoaded: check at once, then poll briefly
+      const bannerSelector = CONSENT_BANNER_SIGNATURES.flatMap(
+        (s) => s.bannerSelectors,
+      ).join(', ');
+      if (
+        !(await this.hasConsentBanner(page, bannerSelector)) &&
+        this.consentWaitMs > 0
+      ) {
+        await page
+          .waitForSelector(bannerSelector, {
+            state: 'attached',
+            timeout: this.consentWaitMs,
+          })
+          .catch(() => undefined);
+      }
+
+      for (const frame of page.frames()) {
+        const signature = await this.detectConsentBanner(frame);
+        if (!signature) continue;
+
+        const inFrame = frame !== page.mainFrame() || undefined;
+        const dismissal = (await this.acceptConsentBanner(
+          frame,
+          signature,
+          timeout,
+        )) || {
+          cmp: signature.cmp,
+          method: 'removed' as const,
+        };
+        if (dismissal.method === 'removed') {
+          await this.removeConsentBanner(frame, signature);
+        }
+
+        // Let the page render the content that was waiting for consent
+        await page.waitForTimeout(1000);
+        this.logger.debug(
+          `Consent banner dismissed on ${page.url()}: ${dismissal.cmp} (${dismissal.method})`,
+        );
+        return { ...dismissal, inFrame };
+      }
+
+      const label = await this.clickGenericConsentButton(page);
+      if (label) {
+        await page.waitForTimeout(1000);
+        this.logger.debug(
+          `Consent banner dismissed on ${page.url()}: "${label}"`,
+        );
+        return { cmp: 'generic', method: 'text', selector: label };
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Error dismissing consent banner on ${page.url()}: ${error.message}`,
+      );
+    }
+
+    return null;
+  }
+
+  /**
+   * Whether a known CMP banner is already attached to the page or one of its frames
+   */
+  private async hasConsentBanner(
+    page: Page,
+    bannerSelector: string,
+  ): Promise<boolean> {
+    for (const frame of page.frames()) {
+      if (
+        await frame
+          .$(bannerSelector)
+          .then((handle) => handle !== null)
+          .catch(() => false)
+      ) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * First known CMP whose banner is displayed in the frame
+   */
+  private async detectConsentBanner(
+    frame: Frame,
+  ): Promise<ConsentBannerSignature | undefined> {
+    for (const signature of CONSENT_BANNER_SIGNATURES) {
+      for (const selector of signature.bannerSelectors) {
+        if (
+          await frame
+            .locator(selector)
+            .first()
+            .isVisible()
+            .catch(() => false)
+        ) {
+          return signature;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Accept consent through the CMP buttons, then its JS API
+   * Succeeds once the banner is no longer visible
+   */
+  private async acceptConsentBanner(
+    frame: Frame,
+    signature: ConsentBannerSignature,
+    timeout: number,
+  ): Promise<ConsentDismissal | null> {
+    const bannerSelector = signature.bannerSelectors.join(', ');
+    const bannerHidden = () =>
+      frame
+        .waitForSelector(bannerSelector, { state: 'hidden', timeout })
+        .then(() => true)
+        .catch(() => false);
+
+    for (const selector of signature.acceptSelectors) {
+      const button = frame.locator(selector).first();
+      if (!(await button.isVisible().catch(() => false))) continue;
+
+      try {
+        await button.click({ timeout });
+      } catch {
+        continue;
+      }
+      if (await bannerHidden()) {
+        return { cmp: signature.cmp, method: 'click', selector };
+      }
+    }
+
+    for (const method of signature.acceptMethods || []) {
+      const called = await frame
+        .evaluate((path) => {
+          const parts = path.split('.');
+          const owner = parts
+            .slice(0, -1)
+            .reduce((obj: any, key) => obj?.[key], window);
+          const fn = owner?.[parts[parts.length - 1]];
+          if (typeof fn !== 'function') return false;
+          fn.call(owner, true);
+          return true;
+        }, method)
+        .catch(() => false);
+
+      if (called && (await bannerHidden())) {
+        return { cmp: signature.cmp, method: 'api', selector: method };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Remove a banner that could not be accepted and restore page scrolling
+   */
+  private async removeConsentBanner(
+    frame: Frame,
+    signature: ConsentBannerSignature,
+  ): Promise<void> {
+    await frame
+      .evaluate((selectors) => {
+        document
+          .querySelectorAll(selectors.join(', '))
+          .forEach((el) => el.remove());
+        [document.documentElement, document.body].forEach((el) => {
+          if (el && getComputedStyle(el).overflow === 'hidden') {
+            el.style.setProperty('overflow', 'visible', 'important');
+          }
+        });
+      }, signature.bannerSelectors)
+      .catch(() => undefined);
+  }
+
+  /**
+   * Click a visible "accept" button inside a cookie notice of an unknown CMP
+   * Returns the button label, or null when there is none
+   */
+  private async clickGenericConsentButton(page: Page): Promise<string | null> {
+    const label = await page.evaluate(
+      ({ labels, keywords }) => {
+        const labelPatterns = labels.map((source) => new RegExp(source, 'i'));
+        const keywordPattern = new RegExp(keywords, 'i');
+        const buttons = Array.from(
+          document.querySelectorAll<HTMLElement>(
+            'button, [role="button"], a.button, a[class*="btn"]',
+          ),
+        );
+
+        for (const button of buttons) {
+          const text = (button.innerText || '').trim().replace(/\s+/g, ' ');
+          if (!text || !labelPatterns.some((pattern) => pattern.test(text)))
+            continue;
+
+          const rect = button.getBoundingClientRect();
+          if (rect.width === 0 || rect.height === 0) continue;
+
+          // The button must belong to a cookie notice (overlay, dialog or cookie-named container),
+          // not to the article (e.g. a newsletter "OK")
+          let container = button.parentElement;
+          for (
+            let depth = 0;
+            container && container !== document.body && depth < 8;
+            depth++, container = container.parentElement
+          ) {
+            const position = getComputedStyle(container).position;
+            const isNotice =
+              position === 'fixed' ||
+              position === 'sticky' ||
+              /dialog/.test(container.getAttribute('role') || '') ||
+              /cookie|consent|rgpd|gdpr/i.test(
+                `${container.id} ${container.className}`,
+              );
+            if (isNotice && keywordPattern.test(container.innerText || '')) {
+              button.setAttribute('data-consent-accept', '');
+              return text;
+            }
+          }
+        }
+        return null;
+      },
+      {
+        labels: GENERIC_ACCEPT_LABELS.map((pattern) => pattern.source),
+        keywords: GENERIC_CONSENT_KEYWORDS.source,
+      },
+    );
+
+    if (!label) {
+      return null;
+    }
+
+    try {
+      await page.click('[data-consent-accept]', { timeout: 3000 });
+      return label;
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Create a new page in a new context
    */
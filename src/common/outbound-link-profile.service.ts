@@ -0,0 +1,274 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ExtractedLink } from './http-page.service';
+import {
+  DEFAULT_LINK_FARM_THRESHOLDS,
+  LinkFarmSignal,
+  LinkFarmThresholds,
+  TOXIC_LINK_CATEGORIES,
+  ToxicLinkCategory,
+  ToxicLinkRule,
+  parseToxicLinkRules,
+} from '../config/outbound-links.config';
+
+/**
+ * External link pointing to a toxic category
+ */
+export interface ToxicLink {
+  href: string;
+  domain: string;
+  category: ToxicLinkCategory;
+  matchedOn: 'domain' | 'keyword';
+  term: string; // Matched domain or keyword
+}
+
+/**
+ * Outbound link profile of a netlink page
+ */
+export interface OutboundLinkProfile {
+  totalLinks: number; // http(s) anchors of the page
+  internalLinks: number;
+  externalLinks: number;
+  externalDomains: number;
+  dofollowExternalLinks: number;
+  dofollowShare: number; // 0-1, dofollow external links / external links
+  topExternalDomains: Array<{ domain: string; count: number }>;
+  toxicLinks: ToxicLink[];
+  toxicCategories: Partial<Record<ToxicLinkCategory, number>>;
+  linkFarm: boolean;
+  linkFarmSignals: LinkFarmSignal[];
+}
+
+const TOP_EXTERNAL_DOMAINS_LIMIT = 10;
+
+/**
+ * Outbound Link Profile Service
+ *
+ * Profiles the outbound links of a netlink page so vendors selling links
+ * from link farms or toxic neighborhoods can be spotted:
+ * - internal vs external links and number of external domains
+ * - share of dofollow external links
+ * - links to toxic categories (casino, adult, pharma, loans)
+ * - link farm flag when several signals add up (see outbound-links.config.ts)
+ *
+ * Environment Variables:
+ * - NETLINK_TOXIC_LINK_RULES: JSON object of extra toxic domains/keywords per category
+ * - NETLINK_LINK_FARM_MAX_EXTERNAL_DOMAINS: External domains above which a page is suspicious (default: 50)
+ * - NETLINK_LINK_FARM_MIN_TOXIC_LINKS: Toxic links above which a page is suspicious (default: 3)
+ */
+@Injectable()
+export class OutboundLinkProfileService {
+  private readonly logger = new Logger(OutboundLinkProfileService.name);
+  private readonly rules: Record<ToxicLinkCategory, ToxicLinkRule>;
+  private readonly thresholds: LinkFarmThresholds;
+
+  constructor(private readonly configService: ConfigService) {
+    const { rules, errors } = parseToxicLinkRules(
+      this.configService.get<string>('NETLINK_TOXIC_LINK_RULES'),
+    );
+    errors.forEach((error) =>
+      this.logger.warn(`Ignoring toxic link rule: ${error}`),
+    );
+    this.rules = rules;
+
+    this.thresholds = {
+      ...DEFAULT_LINK_FARM_THRESHOLDS,
+      maxExternalDomains: Number(
+        this.configService.get<number>(
+          'NETLINK_LINK_FARM_MAX_EXTERNAL_DOMAINS',
+          DEFAULT_LINK_FARM_THRESHOLDS.maxExternalDomains,
+        ),
+      ),
+      minToxicLinks: Number(
+        this.configService.get<number>(
+          'NETLINK_LINK_FARM_MIN_TOXIC_LINKS',
+          DEFAULT_LINK_FARM_THRESHOLDS.minToxicLinks,
+        ),
+      ),
+    };
+  }
+
+  /**
+   * Build the outbound link profile of a page from its extracted links
+   *
+   * @param pageUrl - URL of the netlink page, links to the same host are internal
+   * @param trustedUrls - URLs whose host is never reported as toxic (e.g. the client landing page)
+   */
+  analyze(
+    links: ExtractedLink[],
+    pageUrl: string,
+    trustedUrls: string[] = [],
+  ): OutboundLinkProfile {
+    const pageHost = this.getHost(pageUrl);
+    const trustedHosts = trustedUrls.map((url) => this.getHost(url));
+    const domainCounts = new Map<string, number>();
+    const toxicLinks: ToxicLink[] = [];
+    let totalLinks = 0;
+    let externalLinks = 0;
+    let dofollowExternalLinks = 0;
+
+    for (const link of links) {
+      let parsed: URL;
+      try {
+        parsed = new URL(link.href);
+      } catch {
+        continue;
+      }
+      if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        continue;
+      }
+
+      totalLinks++;
+      const host = this.getHost(link.href);
+      if (this.isSameSite(host, pageHost)) continue;
+
+      externalLinks++;
+      domainCounts.set(host, (domainCounts.get(host) || 0) + 1);
+
+      const rel = (link.rel || '').toLowerCase().split(/\s+/);
+      if (
+        !['nofollow', 'sponsored', 'ugc'].some((token) => rel.includes(token))
+      ) {
+        dofollowExternalLinks++;
+      }
+
+      const toxic = trustedHosts.includes(host)
+        ? undefined
+        : this.matchToxicLink(parsed, host, link.text);
+      if (toxic) {
+        toxicLinks.push({ href: link.href, domain: host, ...toxic });
+      }
+    }
+
+    const toxicCategories: Partial<Record<ToxicLinkCategory, number>> = {};
+    toxicLinks.forEach(({ category }) => {
+      toxicCategories[category] = (toxicCategories[category] || 0) + 1;
+    });
+
+    const dofollowShare =
+      externalLinks > 0 ? dofollowExternalLinks / externalLinks : 0;
+    const linkFarmSignals = this.getLinkFarmSignals({
+      totalLinks,
+      externalLinks,
+      externalDomains: domainCounts.size,
+      dofollowShare,
+      toxicLinks: toxicLinks.length,
+    });
+
+    return {
+      totalLinks,
+      internalLinks: totalLinks - externalLinks,
+      externalLinks,
+      externalDomains: domainCounts.size,
+      dofollowExternalLinks,
+      dofollowShare: Math.round(dofollowShare * 100) / 100,
+      topExternalDomains: Array.from(domainCounts.entries())
+        .map(([domain, count]) => ({ domain, count }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, TOP_EXTERNAL_DOMAINS_LIMIT),
+      toxicLinks,
+      toxicCategories,
+      linkFarm: linkFarmSignals.length >= this.thresholds.minSignals,
+      linkFarmSignals,
+    };
+  }
+
+  /**
+   * First toxic category matching a link, on its domain then on keywords
+   */
+  private matchToxicLink(
+    url: URL,
+    host: string,
+    text: string,
+  ): Pick<ToxicLink, 'category' | 'matchedOn' | 'term'> | undefined {
+    for (const category of TOXIC_LINK_CATEGORIES) {
+      const domain = this.rules[category].domains.find(
+        (candidate) => host === candidate || host.endsWith(`.${candidate}`),
+      );
+      if (domain) return { category, matchedOn: 'domain', term: domain };
+    }
+
+    // Anchor text words are joined with dashes so "machine à sous" matches "machine-a-sous"
+    const haystack = [
+      host,
+      this.decodePath(url.pathname),
+      text
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/\s+/g, '-'),
+    ]
+      .join(' ')
+      .toLowerCase();
+
+    for (const category of TOXIC_LINK_CATEGORIES) {
+      const keyword = this.rules[category].keywords.find((candidate) =>
+        haystack.includes(candidate),
+      );
+      if (keyword) return { category, matchedOn: 'keyword', term: keyword };
+    }
+
+    return undefined;
+  }
+
+  private getLinkFarmSignals(counts: {
+    totalLinks: number;
+    externalLinks: number;
+    externalDomains: number;
+    dofollowShare: number;
+    toxicLinks: number;
+  }): LinkFarmSignal[] {
+    const signals: LinkFarmSignal[] = [];
+    const enoughExternalLinks =
+      counts.externalLinks >= this.thresholds.minExternalLinks;
+
+    if (counts.externalDomains >= this.thresholds.maxExternalDomains) {
+      signals.push('many_external_domains');
+    }
+    if (
+      enoughExternalLinks &&
+      counts.externalLinks / counts.totalLinks >=
+        this.thresholds.minOutboundShare
+    ) {
+      signals.push('mostly_outbound');
+    }
+    if (
+      enoughExternalLinks &&
+      counts.dofollowShare >= this.thresholds.minDofollowShare
+    ) {
+      signals.push('all_dofollow');
+    }
+    if (counts.toxicLinks >= this.thresholds.minToxicLinks) {
+      signals.push('toxic_neighbors');
+    }
+
+    return signals;
+  }
+
+  /**
+   * Same site when one host is the other or one of its subdomains
+   */
+  private isSameSite(host: string, pageHost: string): boolean {
+    return (
+      !!host &&
+      (host === pageHost ||
+        host.endsWith(`.${pageHost}`) ||
+        pageHost.endsWith(`.${host}`))
+    );
+  }
+
+  private decodePath(pathname: string): string {
+    try {
+      return decodeURIComponent(pathname);
+    } catch {
+      return pathname;
+    }
+  }
+
+  private getHost(url: string): string {
+    try {
+      return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+    } catch {
+      return '';
+    }
+  }
+}
@@ -0,0 +1,222 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios, { AxiosInstance } from 'axios';
+import { extractRedirectTarget } from '../config/redirect-links.config';
+
+/**
+ * One redirect step
+ * - http: 3xx response with a Location header
+ * - meta_refresh: <meta http-equiv="refresh"> page
+ * - query_param: destination read from a redirect query parameter (no request made)
+ */
+export interface RedirectHop {
+  url: string;
+  statusCode?: number;
+  via: 'http' | 'meta_refresh' | 'query_param';
+}
+
+/**
+ * Resolved redirect chain of a URL
+ */
+export interface RedirectChain {
+  url: string;
+  finalUrl: string;
+  finalStatusCode?: number;
+  hops: RedirectHop[]; // URLs that redirected, in order (empty when the URL does not redirect)
+  redirected: boolean;
+  hopLimitReached?: boolean;
+  loopDetected?: boolean;
+  error?: string; // Resolution stopped early (network error, redirect loop)
+}
+
+/**
+ * Redirect Resolver Service
+ *
+ * Follows redirect chains hop by hop (shorteners, tracking redirects, 301'd landing pages).
+ *
+ * Features:
+ * - HTTP 3xx, meta refresh and redirect query parameters
+ * - Hop limit and redirect loop detection
+ * - In-memory cache shared by concurrent lookups of the same URL
+ *
+ * Environment Variables:
+ * - NETLINK_REDIRECT_MAX_HOPS: Maximum redirects followed (default: 5)
+ * - NETLINK_REDIRECT_TIMEOUT: Timeout in ms of each hop (default: 8000)
+ * - NETLINK_REDIRECT_CACHE_MINUTES: How long a resolved chain is cached (default: 60)
+ */
+@Injectable()
+export class RedirectResolverService {
+  private readonly logger = new Logger(RedirectResolverService.name);
+  private readonly axiosInstance: AxiosInstance;
+  private readonly maxHops: number;
+  private readonly cacheTtlMs: number;
+  private readonly cache = new Map<
+    string,
+    { expiresAt: number; chain: Promise<RedirectChain> }
+  >();
+
+  constructor(private readonly configService: ConfigService) {
+    this.maxHops = Number(
+      this.configService.get<number>('NETLINK_REDIRECT_MAX_HOPS', 5),
+    );
+    this.cacheTtlMs =
+      Number(
+        this.configService.get<number>('NETLINK_REDIRECT_CACHE_MINUTES', 60),
+      ) *
+      60 *
+      1000;
+
+    this.axiosInstance = axios.create({
+      timeout: Number(
+        this.configService.get<number>('NETLINK_REDIRECT_TIMEOUT', 8000),
+      ),
+      // Redirects are followed manually to record each hop
+      maxRedirects: 0,
+      maxContentLength: 2 * 1024 * 1024, // 2 MB
+      responseType: 'text',
+      transformResponse: [(data) => data],
+      validateStatus: () => true,
+      headers: {
+        'User-Agent':
+          'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+        Accept:
+          'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+        'Accept-Language': 'fr-FR,fr;q=0.9,en-US;q=0.8,en;q=0.7',
+      },
+    });
+  }
+
+  /**
+   * Resolve the redirect chain of a URL (cached)
+   * Disable followQueryParams for URLs that are destinations themselves (landing pages),
+   * where a url=/to= parameter is regular page state, not a redirect
+   */
+  resolve(
+    url: string,
+    options?: { followQueryParams?: boolean },
+  ): Promise<RedirectChain> {
+    const followQueryParams = options?.followQueryParams ?? true;
+    const key = followQueryParams ? url : `${url}#no-query-param`;
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.chain;
+    }
+
+    const chain = this.followChain(url, followQueryParams);
+    this.cache.set(key, { expiresAt: Date.now() + this.cacheTtlMs, chain });
+    return chain;
+  }
+
+  /**
+   * Clear the cache
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private async followChain(
+    url: string,
+    followQueryParams: boolean,
+  ): Promise<RedirectChain> {
+    const hops: RedirectHop[] = [];
+    const seen = new Set<string>();
+    let current = url;
+    let finalStatusCode: number | undefined;
+
+    const result = (extra?: Partial<RedirectChain>): RedirectChain => ({
+      url,
+      finalUrl: current,
+      finalStatusCode,
+      hops,
+      redirected: hops.length > 0,
+      ...extra,
+    });
+
+    while (hops.length <= this.maxHops) {
+      if (seen.has(current)) {
+        return result({ error: 'Redirect loop', loopDetected: true });
+      }
+      seen.add(current);
+
+      let next: RedirectHop | undefined;
+      let nextUrl: string | undefined;
+
+      // A destination carried in the query is trusted without requesting the redirect
+      const target = followQueryParams
+        ? extractRedirectTarget(current)
+        : undefined;
+      if (target && !this.isSameHost(target, current)) {
+        next = { url: current, via: 'query_param' };
+        nextUrl = target;
+      } else {
+        try {
+          const response = await this.axiosInstance.get<string>(current);
+          finalStatusCode = response.status;
+          const location = response.headers?.location;
+
+          if (response.status >= 300 && response.status < 400 && location) {
+            next = { url: current, statusCode: response.status, via: 'http' };
+            nextUrl = String(location);
+          } else if (response.status < 300) {
+            const refresh = this.getMetaRefreshUrl(
+              typeof response.data === 'string' ? response.data : '',
+            );
+            if (refresh) {
+              next = {
+                url: current,
+                statusCode: response.status,
+                via: 'meta_refresh',
+              };
+              nextUrl = refresh;
+            }
+          }
+        } catch (error) {
+          this.logger.debug(
+            `Redirect lookup failed for ${current}: ${error.message}`,
+          );
+          return result({ error: error.message });
+        }
+      }
+
+      if (!next) {
+        return result();
+      }
+
+      try {
+        nextUrl = new URL(nextUrl, current).href;
+      } catch {
+        return result({ error: `Invalid redirect target: ${nextUrl}` });
+      }
+
+      if (hops.length === this.maxHops) {
+        return result({ hopLimitReached: true });
+      }
+
+      hops.push(next);
+      finalStatusCode = undefined;
+      current = nextUrl;
+    }
+
+    return result({ hopLimitReached: true });
+  }
+
+  /**
+   * Target of a <meta http-equiv="refresh" content="0; url=..."> tag
+   */
+  private getMetaRefreshUrl(html: string): string | undefined {
+    const tag = html.match(
+      /<meta[^>]+http-equiv\s*=\s*["']?refresh["']?[^>]*>/i,
+    )?.[0];
+    const content = tag?.match(/content\s*=\s*["']([^"']*)["']/i)?.[1];
+    const target = content?.match(/url\s*=\s*['"]?([^'";]+)/i)?.[1];
+    return target?.trim() || undefined;
+  }
+
+  private isSameHost(a: string, b: string): boolean {
+    try {
+      return new URL(a).host === new URL(b).host;
+    } catch {
+      return false;
+    }
+  }
+}
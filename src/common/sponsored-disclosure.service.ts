@@ -0,0 +1,197 @@
+import { Injectable } from '@nestjs/common';
+import { HttpPageService } from './http-page.service';
+import {
+  RECOMMENDATION_WIDGET_PATTERN,
+  SPONSORED_BADGE_LABELS,
+  SPONSORED_CATEGORY_LABELS,
+  SPONSORED_CLASS_PATTERN,
+  SPONSORED_SCHEMA_TYPES,
+  SPONSORED_TEXT_PATTERNS,
+  SponsoredDisclosure,
+  SponsoredDisclosureMatch,
+  SponsoredDisclosureSource,
+  normalizeDisclosureLabel,
+} from '../config/sponsored-disclosure.config';
+
+/**
+ * Sponsored Disclosure Service
+ *
+ * Detects whether a publisher page labels its post as sponsored:
+ * - disclosure sentences and badges in the post ("article sponsorisé", "en partenariat avec")
+ * - sponsored categories and tags (rel="category tag", article:section/article:tag, post classes)
+ * - schema.org markup (AdvertiserContentArticle, sponsor property)
+ *
+ * Text and badges are only searched in the post (first <article>, else <main>, else <body>),
+ * up to the first recommendation widget (Taboola, Outbrain...), whose "Sponsored" headers
+ * are not about the post.
+ */
+@Injectable()
+export class SponsoredDisclosureService {
+  constructor(private readonly httpPage: HttpPageService) {}
+
+  /**
+   * Detect sponsored disclosures in a page (raw or rendered HTML)
+   */
+  detect(html: string, pageUrl: string): SponsoredDisclosure {
+    const matches: SponsoredDisclosureMatch[] = [];
+    const add = (source: SponsoredDisclosureSource, value: string) => {
+      if (!matches.some((m) => m.source === source && m.value === value)) {
+        matches.push({ source, value });
+      }
+    };
+
+    // Schema markup lives in scripts, read it before they are stripped
+    this.findSchemaDisclosures(html).forEach((value) => add('schema', value));
+
+    const source = this.httpPage.stripNonContent(html);
+    const post = this.getPostContent(source);
+
+    // Categories and tags
+    this.httpPage
+      .parseTags(source, 'meta')
+      .filter((tag) =>
+        ['article:section', 'article:tag'].includes(
+          (tag.property || '').toLowerCase(),
+        ),
+      )
+      .filter((tag) => this.isCategoryLabel(tag.content || ''))
+      .forEach((tag) =>
+        add('category', `${tag.property.toLowerCase()}: ${tag.content}`),
+      );
+
+    this.httpPage
+      .extractLinks(html, pageUrl)
+      .filter((link) => /\b(category|tag)\b/i.test(link.rel))
+      .filter((link) => this.isCategoryLabel(link.text))
+      .forEach((link) => add('category', link.text));
+
+    // WordPress post classes, e.g. <article class="post category-partenariat tag-sponsorise">
+    const postTag =
+      source.match(/<article\b[^>]*>/i)?.[0] ||
+      source.match(/<body\b[^>]*>/i)?.[0] ||
+      '';
+    const postClasses =
+      postTag.match(/\bclass\s*=\s*["']([^"']*)["']/i)?.[1] || '';
+    postClasses
+      .split(/\s+/)
+      .filter((token) => /^(category|tag)-./i.test(token))
+      .filter((token) => this.isCategoryLabel(token.replace(/^[a-z]+-/i, '')))
+      .forEach((token) => add('category', token));
+
+    // Badges: elements flagged by their class/id, or whose whole text is a label
+    const attributePattern = /\b(class|id)\s*=\s*["']([^"']*)["']/gi;
+    let attribute: RegExpExecArray | null;
+    while ((attribute = attributePattern.exec(post)) !== null) {
+      // category-*/tag-* post classes are reported as categories
+      const tokens = attribute[2]
+        .split(/\s+/)
+        .filter((token) => !/^(category|tag)-/i.test(token));
+      if (SPONSORED_CLASS_PATTERN.test(tokens.join(' '))) {
+        add('badge', `${attribute[1].toLowerCase()}="${attribute[2].trim()}"`);
+      }
+    }
+
+    const badgePattern =
+      /<(span|div|p|strong|em|b|small|mark|label|h[1-6]|figcaption|aside)\b[^>]*>([^<]{2,60})<\/\1>/gi;
+    let badge: RegExpExecArray | null;
+    while ((badge = badgePattern.exec(post)) !== null) {
+      const text = this.httpPage.toText(badge[2]);
+      if (SPONSORED_BADGE_LABELS.includes(normalizeDisclosureLabel(text))) {
+        add('badge', text);
+      }
+    }
+
+    // Disclosure sentences
+    const text = this.httpPage.toText(post);
+    SPONSORED_TEXT_PATTERNS.forEach((pattern) => {
+      const match = text.match(pattern);
+      if (match) add('label', match[0]);
+    });
+
+    const sources = Array.from(new Set(matches.map((m) => m.source)));
+    return { disclosed: matches.length > 0, sources, matches };
+  }
+
+  /**
+   * Post part of the page, cut at the first recommendation widget
+   */
+  private getPostContent(source: string): string {
+    let post = source;
+    for (const tag of ['article', 'main', 'body']) {
+      const start = source.search(new RegExp(`<${tag}\\b`, 'i'));
+      const end = source.toLowerCase().lastIndexOf(`</${tag}>`);
+      if (start >= 0 && end > start) {
+        post = source.slice(start, end);
+        break;
+      }
+    }
+
+    const widget = post.search(
+      new RegExp(
+        `\\b(class|id)\\s*=\\s*["'][^"']*(${RECOMMENDATION_WIDGET_PATTERN.source})`,
+        'i',
+      ),
+    );
+    return widget > 0 ? post.slice(0, post.lastIndexOf('<', widget)) : post;
+  }
+
+  /**
+   * Sponsored schema.org types and sponsor properties (JSON-LD and microdata)
+   */
+  private findSchemaDisclosures(html: string): string[] {
+    const found: string[] = [];
+
+    SPONSORED_SCHEMA_TYPES.forEach((type) => {
+      if (
+        new RegExp(`itemtype=["'][^"']*schema\\.org/${type}\\b`, 'i').test(html)
+      ) {
+        found.push(`itemtype: ${type}`);
+      }
+    });
+    if (/\bitemprop=["']sponsor["']/i.test(html)) {
+      found.push('itemprop: sponsor');
+    }
+
+    const scriptPattern =
+      /<script\b[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+    let script: RegExpExecArray | null;
+    while ((script = scriptPattern.exec(html)) !== null) {
+      let data: any;
+      try {
+        data = JSON.parse(script[1]);
+      } catch {
+        continue;
+      }
+
+      const visit = (node: any) => {
+        if (Array.isArray(node)) {
+          node.forEach(visit);
+          return;
+        }
+        if (!node || typeof node !== 'object') return;
+
+        const types = [].concat(node['@type'] || []);
+        types
+          .filter((type) => SPONSORED_SCHEMA_TYPES.includes(type))
+          .forEach((type) => found.push(`@type: ${type}`));
+        if (node.sponsor) {
+          const sponsor = [].concat(node.sponsor)[0];
+          found.push(
+            `sponsor: ${typeof sponsor === 'string' ? sponsor : sponsor?.name || 'unnamed'}`,
+          );
+        }
+
+        Object.values(node).forEach(
+          (value) => value && typeof value === 'object' && visit(value),
+        );
+      };
+      visit(data);
+    }
+
+    return found;
+  }
+
+  private isCategoryLabel(name: string): boolean {
+    return SPONSORED_CATEGORY_LABELS.includes(normalizeDisclosureLabel(name));
+  }
+}
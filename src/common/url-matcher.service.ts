@@ -0,0 +1,189 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  UrlMatchPolicy,
+  UrlMatchType,
+  URL_MATCH_POLICIES,
+  URL_MATCH_SCORES,
+  URL_MATCH_POLICY_MIN_SCORES,
+  DEFAULT_URL_MATCH_POLICY,
+  TRACKING_PARAM_PATTERNS,
+  parseMatchPolicies,
+} from '../config/url-matching.config';
+
+/**
+ * Canonical form of an http(s) URL
+ */
+export interface CanonicalUrl {
+  hostname: string; // Lowercased, punycode, without www. and trailing dot
+  port: string; // Empty for the scheme default port
+  path: string; // No trailing slash (except the root), normalized percent-encoding
+  query: string; // Tracking parameters removed, remaining parameters sorted
+  key: string; // hostname[:port] + path + ?query, scheme and fragment ignored
+}
+
+/**
+ * Result of comparing a link with a landing page
+ */
+export interface UrlMatchResult {
+  matched: boolean; // Accepted by the match policy
+  matchType?: UrlMatchType; // Undefined when the URLs are on unrelated hosts
+  score: number; // 0-100, see URL_MATCH_SCORES
+  policy: UrlMatchPolicy;
+}
+
+/**
+ * URL Matcher Service
+ *
+ * Compares links found on netlink pages with contract landing pages.
+ *
+ * Features:
+ * - Strict canonicalization: scheme, host case, IDN (punycode), www., default ports,
+ *   trailing slash, percent-encoding, tracking parameters, parameter order, fragments
+ * - Path prefix matching on segment boundaries (/shoes matches /shoes/red, not /shoes-sale)
+ * - Per-contract match policy (exact, path_prefix, domain) with a match score
+ *
+ * Environment Variables:
+ * - NETLINK_MATCH_POLICY: Default match policy (default: exact)
+ * - NETLINK_MATCH_POLICIES: JSON object of per-contract policies (see url-matching.config.ts)
+ */
+@Injectable()
+export class UrlMatcherService {
+  private readonly logger = new Logger(UrlMatcherService.name);
+  private readonly defaultPolicy: UrlMatchPolicy;
+  private readonly contractPolicies: Record<string, UrlMatchPolicy>;
+
+  constructor(private readonly configService: ConfigService) {
+    const defaultPolicy = this.configService.get<string>(
+      'NETLINK_MATCH_POLICY',
+      DEFAULT_URL_MATCH_POLICY,
+    ) as UrlMatchPolicy;
+    if (URL_MATCH_POLICIES.includes(defaultPolicy)) {
+      this.defaultPolicy = defaultPolicy;
+    } else {
+      this.logger.warn(
+        `Unknown NETLINK_MATCH_POLICY "${defaultPolicy}", using ${DEFAULT_URL_MATCH_POLICY}`,
+      );
+      this.defaultPolicy = DEFAULT_URL_MATCH_POLICY;
+    }
+
+    const { policies, errors } = parseMatchPolicies(
+      this.configService.get<string>('NETLINK_MATCH_POLICIES'),
+    );
+    errors.forEach((error) =>
+      this.logger.warn(`Ignoring match policy configuration: ${error}`),
+    );
+    this.contractPolicies = policies;
+  }
+
+  /**
+   * Match policy of a contract (the default policy when none is configured)
+   */
+  getPolicy(contractId?: string | number): UrlMatchPolicy {
+    if (contractId === undefined || contractId === null) {
+      return this.defaultPolicy;
+    }
+    return this.contractPolicies[String(contractId)] || this.defaultPolicy;
+  }
+
+  /**
+   * Canonicalize an absolute http(s) URL (undefined for other schemes or invalid URLs)
+   */
+  canonicalize(url: string): CanonicalUrl | undefined {
+    let parsed: URL;
+    try {
+      parsed = new URL(url.trim());
+    } catch {
+      return undefined;
+    }
+
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      return undefined;
+    }
+
+    // The URL parser already lowercases the host, converts IDN to punycode and drops default ports
+    const hostname = parsed.hostname.replace(/\.$/, '').replace(/^www\./, '');
+    const port = parsed.port;
+
+    const path =
+      parsed.pathname
+        .replace(/\/{2,}/g, '/')
+        .replace(/%[0-9a-f]{2}/gi, (escape) => {
+          const char = String.fromCharCode(parseInt(escape.slice(1), 16));
+          return /[A-Za-z0-9\-._~]/.test(char) ? char : escape.toUpperCase();
+        })
+        .replace(/\/+$/, '') || '/';
+
+    const params = Array.from(parsed.searchParams.entries())
+      .filter(([name]) => !this.isTrackingParam(name))
+      .sort(([nameA, valueA], [nameB, valueB]) =>
+        nameA === nameB
+          ? valueA.localeCompare(valueB)
+          : nameA.localeCompare(nameB),
+      );
+    const query = new URLSearchParams(params).toString();
+
+    return {
+      hostname,
+      port,
+      path,
+      query,
+      key: `${hostname}${port ? `:${port}` : ''}${path}${query ? `?${query}` : ''}`,
+    };
+  }
+
+  /**
+   * Compare a link with a landing page under a match policy
+   */
+  match(
+    linkHref: string,
+    landingPage: string,
+    policy: UrlMatchPolicy = this.defaultPolicy,
+  ): UrlMatchResult {
+    const link = linkHref ? this.canonicalize(linkHref) : undefined;
+    const landing = landingPage ? this.canonicalize(landingPage) : undefined;
+    if (!link || !landing) {
+      return { matched: false, score: 0, policy };
+    }
+
+    const matchType = this.getMatchType(link, landing);
+    const score = matchType ? URL_MATCH_SCORES[matchType] : 0;
+
+    return {
+      matched: score > 0 && score >= URL_MATCH_POLICY_MIN_SCORES[policy],
+      matchType,
+      score,
+      policy,
+    };
+  }
+
+  /**
+   * Classify how a canonical link relates to a canonical landing page
+   */
+  private getMatchType(
+    link: CanonicalUrl,
+    landing: CanonicalUrl,
+  ): UrlMatchType | undefined {
+    if (link.hostname !== landing.hostname || link.port !== landing.port) {
+      const isSubdomain =
+        link.hostname.endsWith(`.${landing.hostname}`) ||
+        landing.hostname.endsWith(`.${link.hostname}`);
+      return isSubdomain ? 'subdomain' : undefined;
+    }
+
+    if (link.path === landing.path) {
+      return link.query === landing.query ? 'exact' : 'same_path';
+    }
+
+    // Every page is below the root, so a homepage landing page only matches by domain
+    if (landing.path !== '/' && link.path.startsWith(`${landing.path}/`)) {
+      return 'path_prefix';
+    }
+
+    return 'domain';
+  }
+
+  private isTrackingParam(name: string): boolean {
+    return TRACKING_PARAM_PATTERNS.some((pattern) => pattern.test(name));
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * Anchor Text Configuration
+ *
+ * Rules used to classify backlink anchors and build anchor profiles.
+ * Client keywords and brand names default to the landing page slug and domain
+ * name, and can be set per contract (NETLINK_ANCHOR_TERMS).
+ */
+
+/**
+ * Anchor categories
+ * - exact_match: the anchor is the target keyword (stop words ignored)
+ * - partial_match: the anchor contains some of the target keyword terms
+ * - branded: the anchor contains the client brand
+ * - naked_url: the anchor is a URL or a domain name
+ * - generic: "cliquez ici", "en savoir plus", "this site"...
+ * - image: image link without text (its alt text is kept as the anchor)
+ * - other: any other text
+ */
+export type AnchorType =
+  | 'exact_match'
+  | 'partial_match'
+  | 'branded'
+  | 'naked_url'
+  | 'generic'
+  | 'image'
+  | 'other';
+
+export const ANCHOR_TYPES: AnchorType[] = [
+  'exact_match',
+  'partial_match',
+  'branded',
+  'naked_url',
+  'generic',
+  'image',
+  'other',
+];
+
+/**
+ * Target keywords and brand names of a contract
+ */
+export interface AnchorTerms {
+  keywords?: string[];
+  brands?: string[];
+}
+
+/**
+ * Default maximum share of exact-match anchors per landing page or contract
+ */
+export const DEFAULT_EXACT_MATCH_MAX_SHARE = 0.3;
+
+/**
+ * Profiles with fewer anchors than this are not warned about (one exact-match link out of two is not a pattern)
+ */
+export const MIN_ANCHORS_FOR_WARNING = 3;
+
+/**
+ * Generic anchors (compared after normalization: lowercase, no accents or punctuation)
+ */
+export const GENERIC_ANCHORS: string[] = [
+  // French
+  'ici',
+  'cliquez ici',
+  'cliquer ici',
+  'clique ici',
+  'en savoir plus',
+  'pour en savoir plus',
+  'savoir plus',
+  'lire la suite',
+  'lire plus',
+  'voir',
+  'voir plus',
+  'voir le site',
+  'voir ici',
+  'ce site',
+  'ce lien',
+  'ce site web',
+  'site',
+  'site web',
+  'site internet',
+  'site officiel',
+  'le site',
+  'lien',
+  'cet article',
+  'article',
+  'source',
+  'decouvrir',
+  'decouvrez',
+  'a decouvrir',
+  'plus d infos',
+  'plus d informations',
+  'plus d info',
+  'page',
+  'cette page',
+  // English
+  'here',
+  'click here',
+  'read more',
+  'learn more',
+  'more',
+  'more info',
+  'this site',
+  'this website',
+  'website',
+  'link',
+  'this link',
+  'this article',
+  'visit',
+  'visit site',
+  'official site',
+];
+
+/**
+ * Words ignored when comparing an anchor with a keyword
+ */
+export const ANCHOR_STOP_WORDS: string[] = [
+  'a',
+  'au',
+  'aux',
+  'de',
+  'des',
+  'du',
+  'd',
+  'en',
+  'et',
+  'la',
+  'le',
+  'les',
+  'l',
+  'un',
+  'une',
+  'pour',
+  'par',
+  'sur',
+  'avec',
+  'dans',
+  'the',
+  'of',
+  'for',
+  'and',
+  'to',
+  'in',
+  'on',
+  'with',
+];
+
+/**
+ * Lowercase, remove accents and punctuation, collapse whitespace
+ */
+export function normalizeAnchor(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Significant terms of a text (normalized, stop words removed)
+ */
+export function getAnchorTerms(text: string): string[] {
+  return normalizeAnchor(text)
+    .split(' ')
+    .filter((term) => term && !ANCHOR_STOP_WORDS.includes(term));
+}
+
+/**
+ * Parse and validate the per-contract anchor terms from their JSON configuration
+ * e.g. {"123": {"keywords": ["chaussures running"], "brands": ["Runix"]}}
+ * Invalid entries are dropped and reported in `errors`
+ */
+export function parseAnchorTerms(raw?: string): {
+  terms: Record<string, AnchorTerms>;
+  errors: string[];
+} {
+  const terms: Record<string, AnchorTerms> = {};
+  const errors: string[] = [];
+
+  if (!raw || !raw.trim()) {
+    return { terms, errors };
+  }
+
+  let entries: any;
+  try {
+    entries = JSON.parse(raw);
+  } catch (error) {
+    return { terms, errors: [`Invalid JSON: ${error.message}`] };
+  }
+
+  if (!entries || typeof entries !== 'object' || Array.isArray(entries)) {
+    return {
+      terms,
+      errors: ['Anchor terms must be a JSON object (contract ID -> terms)'],
+    };
+  }
+
+  const isStringList = (value: any) =>
+    value === undefined ||
+    (Array.isArray(value) && value.every((item) => typeof item === 'string'));
+
+  Object.entries(entries).forEach(([contractId, entry]: [string, any]) => {
+    if (
+      !entry ||
+      typeof entry !== 'object' ||
+      !isStringList(entry.keywords) ||
+      !isStringList(entry.brands)
+    ) {
+      errors.push(
+        `contract ${contractId}: expected {"keywords": string[], "brands": string[]}`,
+      );
+      return;
+    }
+    terms[contractId] = { keywords: entry.keywords, brands: entry.brands };
+  });
+
+  return { terms, errors };
+}
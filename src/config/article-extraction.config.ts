@@ -0,0 +1,360 @@
+/**
+ * Article Extraction Configuration
+ *
+ * Rules used to extract the delivered article from a netlink page (main body,
+ * title, dates, language) and compare it with the order (promised word count).
+ */
+
+/**
+ * Elements holding article text
+ */
+export const ARTICLE_BLOCK_TAGS = [
+  'p',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'li',
+  'blockquote',
+  'pre',
+  'figcaption',
+];
+
+/**
+ * Elements that can hold the article body, candidates of the readability scoring
+ */
+export const ARTICLE_CONTAINER_TAGS = [
+  'article',
+  'main',
+  'section',
+  'div',
+  'td',
+  'body',
+];
+
+/**
+ * Page chrome, never part of the article
+ */
+export const ARTICLE_EXCLUDED_TAGS = [
+  'nav',
+  'header',
+  'footer',
+  'aside',
+  'form',
+  'button',
+  'select',
+  'noscript',
+  'template',
+  'iframe',
+  'svg',
+];
+
+/**
+ * Class/id of containers that are likely or unlikely to hold the article
+ */
+export const ARTICLE_POSITIVE_PATTERN =
+  /article|content|entry|post|story|text|body|main|blog/i;
+export const ARTICLE_NEGATIVE_PATTERN =
+  /comment|sidebar|footer|header|menu|nav|share|social|related|widget|promo|newsletter|cookie|breadcrumb|author-box|tags|pagination|popup|modal|banner|taboola|outbrain/i;
+
+/**
+ * Blocks shorter than this (in characters) do not score their container (captions, buttons)
+ */
+export const MIN_SCORED_BLOCK_LENGTH = 25;
+
+/**
+ * Minimum share of the promised word count a delivered article must reach
+ */
+export const DEFAULT_WORD_COUNT_TOLERANCE = 0.9;
+
+/**
+ * Meta tags of the publication and modification dates (property, name or itemprop)
+ */
+export const PUBLISHED_DATE_META = [
+  'article:published_time',
+  'og:published_time',
+  'datepublished',
+  'publish-date',
+  'publish_date',
+  'pubdate',
+  'parsely-pub-date',
+  'sailthru.date',
+  'dc.date.issued',
+  'dc.date',
+  'date',
+];
+
+export const MODIFIED_DATE_META = [
+  'article:modified_time',
+  'og:updated_time',
+  'datemodified',
+  'last-modified',
+  'dc.date.modified',
+];
+
+/**
+ * schema.org types describing the article in JSON-LD
+ */
+export const ARTICLE_SCHEMA_TYPES = [
+  'Article',
+  'NewsArticle',
+  'BlogPosting',
+  'AdvertiserContentArticle',
+  'Report',
+  'TechArticle',
+  'WebPage',
+];
+
+/**
+ * Frequent words of each supported language, used to detect the article language
+ */
+export const LANGUAGE_STOP_WORDS: Record<string, string[]> = {
+  fr: [
+    'le',
+    'la',
+    'les',
+    'des',
+    'du',
+    'un',
+    'une',
+    'et',
+    'est',
+    'pour',
+    'dans',
+    'que',
+    'qui',
+    'sur',
+    'pas',
+    'plus',
+    'avec',
+    'ce',
+    'cette',
+    'sont',
+    'vous',
+    'nous',
+    'au',
+    'aux',
+    'par',
+    'mais',
+    'ou',
+    'il',
+    'elle',
+  ],
+  en: [
+    'the',
+    'and',
+    'of',
+    'to',
+    'is',
+    'in',
+    'that',
+    'for',
+    'it',
+    'with',
+    'as',
+    'are',
+    'on',
+    'this',
+    'be',
+    'by',
+    'you',
+    'your',
+    'from',
+    'or',
+    'have',
+    'an',
+    'was',
+    'not',
+    'can',
+    'will',
+    'they',
+    'which',
+  ],
+  es: [
+    'el',
+    'los',
+    'las',
+    'del',
+    'y',
+    'que',
+    'en',
+    'por',
+    'con',
+    'para',
+    'una',
+    'es',
+    'se',
+    'no',
+    'lo',
+    'como',
+    'pero',
+    'sus',
+    'al',
+    'este',
+    'esta',
+    'son',
+    'muy',
+    'tambien',
+    'puede',
+    'hay',
+  ],
+  de: [
+    'der',
+    'die',
+    'das',
+    'und',
+    'ist',
+    'nicht',
+    'mit',
+    'den',
+    'von',
+    'zu',
+    'sie',
+    'ein',
+    'eine',
+    'auf',
+    'auch',
+    'es',
+    'sich',
+    'dem',
+    'fur',
+    'im',
+    'wird',
+    'sind',
+    'oder',
+    'wie',
+    'bei',
+    'werden',
+  ],
+  it: [
+    'il',
+    'di',
+    'che',
+    'e',
+    'la',
+    'per',
+    'un',
+    'una',
+    'non',
+    'con',
+    'sono',
+    'della',
+    'del',
+    'gli',
+    'le',
+    'si',
+    'da',
+    'nel',
+    'alla',
+    'anche',
+    'come',
+    'piu',
+    'questo',
+    'ma',
+    'delle',
+    'essere',
+  ],
+  pt: [
+    'o',
+    'os',
+    'de',
+    'que',
+    'e',
+    'do',
+    'da',
+    'em',
+    'um',
+    'uma',
+    'para',
+    'com',
+    'nao',
+    'por',
+    'mais',
+    'as',
+    'dos',
+    'das',
+    'como',
+    'mas',
+    'ao',
+    'ele',
+    'sao',
+    'seu',
+    'sua',
+    'tambem',
+  ],
+  nl: [
+    'de',
+    'het',
+    'een',
+    'en',
+    'van',
+    'ik',
+    'te',
+    'dat',
+    'die',
+    'in',
+    'is',
+    'niet',
+    'op',
+    'zijn',
+    'voor',
+    'met',
+    'ook',
+    'maar',
+    'wordt',
+    'aan',
+    'er',
+    'dit',
+    'als',
+    'bij',
+    'kan',
+    'worden',
+  ],
+};
+
+/**
+ * Texts with fewer words than this are too short for a language guess
+ */
+export const MIN_WORDS_FOR_LANGUAGE = 20;
+
+/**
+ * Words of a text (letters and digits, elisions and hyphenated words count once)
+ */
+export function getWords(text: string): string[] {
+  return text.match(/[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu) || [];
+}
+
+/**
+ * Guess the language of a text from its stop words
+ * Returns undefined when the text is too short or no language stands out
+ */
+export function detectLanguage(
+  text: string,
+): { language: string; confidence: number } | undefined {
+  const words = getWords(
+    text
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase(),
+  ).flatMap((word) => word.split(/['’-]/));
+  if (words.length < MIN_WORDS_FOR_LANGUAGE) return undefined;
+
+  const scores = Object.entries(LANGUAGE_STOP_WORDS)
+    .map(([language, stopWords]) => {
+      const set = new Set(stopWords);
+      return {
+        language,
+        hits: words.filter((word) => set.has(word)).length,
+      };
+    })
+    .sort((a, b) => b.hits - a.hits);
+
+  const [best, second] = scores;
+  if (best.hits === 0) return undefined;
+
+  // Confidence: how much the best language stands out from the runner-up
+  const confidence =
+    Math.round((1 - (second?.hits || 0) / best.hits) * 100) / 100;
+  return confidence > 0 ? { language: best.language, confidence } : undefined;
+}
@@ -0,0 +1,188 @@
+/**
+ * Bot Challenge Configuration
+ *
+ * Fingerprints of anti-bot interstitials, captchas and WAF block pages.
+ * A page matching one of these is reported as "blocked" instead of
+ * being treated as a page where the link is missing.
+ */
+
+export type BotChallengeProvider =
+  | 'cloudflare'
+  | 'datadome'
+  | 'perimeterx'
+  | 'imperva'
+  | 'sucuri'
+  | 'akamai'
+  | 'ddos-guard'
+  | 'captcha'
+  | 'waf';
+
+export type BotChallengeKind = 'challenge' | 'captcha' | 'block';
+
+export interface BotChallengeSignature {
+  provider: BotChallengeProvider;
+  kind: BotChallengeKind;
+  titlePatterns: RegExp[];
+  htmlPatterns: RegExp[];
+  headers: Array<{ name: string; pattern: RegExp }>;
+  sparsePageOnly?: boolean; // Only match pages with little visible text (e.g. captcha widgets)
+}
+
+/**
+ * Page data used for detection
+ */
+export interface BotChallengeInput {
+  statusCode?: number;
+  title?: string;
+  html?: string;
+  headers?: Record<string, string>; // Lowercased header names
+  textLength?: number; // Length of the visible body text
+}
+
+export interface BotChallengeDetection {
+  provider: BotChallengeProvider;
+  kind: BotChallengeKind;
+  signals: string[];
+  statusCode?: number;
+}
+
+/**
+ * Status codes that indicate a block when the page has no real content
+ */
+export const BLOCKING_STATUS_CODES = [403, 429, 503];
+
+/**
+ * Pages with less visible text than this are considered sparse
+ */
+export const SPARSE_PAGE_TEXT_LENGTH = 1000;
+
+export const BOT_CHALLENGE_SIGNATURES: BotChallengeSignature[] = [
+  {
+    provider: 'cloudflare',
+    kind: 'challenge',
+    titlePatterns: [
+      // Whole interstitial title only, posts can start with "Un instant"
+      /^(just a moment|un instant)\s*(\.\.\.|…)?$/i,
+      /attention required.*cloudflare/i,
+    ],
+    htmlPatterns: [
+      /cdn-cgi\/challenge-platform\/h\/[bg]\/orchestrate/i,
+      /cf-browser-verification/i,
+      /window\._cf_chl_opt/i,
+    ],
+    headers: [{ name: 'cf-mitigated', pattern: /challenge/i }],
+  },
+  {
+    provider: 'datadome',
+    kind: 'captcha',
+    titlePatterns: [],
+    htmlPatterns: [/captcha-delivery\.com/i],
+    headers: [],
+  },
+  {
+    provider: 'perimeterx',
+    kind: 'captcha',
+    titlePatterns: [/access to this page has been denied/i],
+    htmlPatterns: [/px-captcha/i, /_pxCaptcha/i],
+    headers: [],
+  },
+  {
+    provider: 'imperva',
+    kind: 'block',
+    titlePatterns: [/pardon our interruption/i],
+    // _Incapsula_Resource is injected in every protected page, only the block page has an incident id
+    htmlPatterns: [/incapsula incident id/i],
+    headers: [],
+  },
+  {
+    provider: 'sucuri',
+    kind: 'block',
+    titlePatterns: [/sucuri website firewall/i],
+    htmlPatterns: [/sucuri website firewall/i, /cloudproxy@sucuri/i],
+    headers: [{ name: 'x-sucuri-block', pattern: /.+/ }],
+  },
+  {
+    provider: 'akamai',
+    kind: 'block',
+    titlePatterns: [],
+    htmlPatterns: [/errors\.edgesuite\.net/i],
+    headers: [],
+  },
+  {
+    provider: 'ddos-guard',
+    kind: 'challenge',
+    titlePatterns: [/ddos-guard/i],
+    htmlPatterns: [/check\.ddos-guard\.net/i],
+    headers: [],
+  },
+  {
+    provider: 'captcha',
+    kind: 'captcha',
+    titlePatterns: [
+      /captcha/i,
+      /verify(ing)? (that )?you are (a )?human/i,
+      /security check/i,
+    ],
+    htmlPatterns: [/class=["'][^"']*g-recaptcha/i, /hcaptcha\.com\/1\/api/i],
+    headers: [],
+    sparsePageOnly: true,
+  },
+];
+
+/**
+ * Detect a bot challenge, captcha or WAF block page
+ * Returns null when the page looks like regular content
+ */
+export function detectBotChallenge(
+  input: BotChallengeInput,
+): BotChallengeDetection | null {
+  const title = (input.title || '').trim();
+  const html = input.html || '';
+  const headers = input.headers || {};
+  const isSparse =
+    input.textLength !== undefined &&
+    input.textLength < SPARSE_PAGE_TEXT_LENGTH;
+
+  for (const signature of BOT_CHALLENGE_SIGNATURES) {
+    if (signature.sparsePageOnly && !isSparse) continue;
+
+    const signals: string[] = [];
+
+    signature.titlePatterns
+      .filter((pattern) => pattern.test(title))
+      .forEach(() => signals.push(`title: ${title}`));
+
+    signature.headers
+      .filter((header) => header.pattern.test(headers[header.name] || ''))
+      .forEach((header) => signals.push(`header: ${header.name}`));
+
+    signature.htmlPatterns
+      .filter((pattern) => pattern.test(html))
+      .forEach((pattern) => signals.push(`html: ${pattern.source}`));
+
+    if (signals.length > 0) {
+      return {
+        provider: signature.provider,
+        kind: signature.kind,
+        signals: Array.from(new Set(signals)),
+        statusCode: input.statusCode,
+      };
+    }
+  }
+
+  // Generic WAF block: blocking status code on a page without real content
+  if (
+    input.statusCode !== undefined &&
+    BLOCKING_STATUS_CODES.includes(input.statusCode) &&
+    isSparse
+  ) {
+    return {
+      provider: 'waf',
+      kind: 'block',
+      signals: [`status: ${input.statusCode}`],
+      statusCode: input.statusCode,
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,138 @@
+/**
+ * Consent Banner Configuration
+ *
+ * Selectors of the cookie consent managers (CMP) used by our publishers.
+ * Consent walls cover the article, and some sites do not render the body
+ * until consent is given, so they are accepted before links are extracted.
+ */
+
+export type ConsentManagementPlatform =
+  | 'didomi'
+  | 'axeptio'
+  | 'tarteaucitron'
+  | 'onetrust'
+  | 'cookiebot'
+  | 'quantcast'
+  | 'sirdata'
+  | 'complianz'
+  | 'cookieyes'
+  | 'generic';
+
+export interface ConsentBannerSignature {
+  cmp: ConsentManagementPlatform;
+  bannerSelectors: string[]; // Banner or wall container, used to detect the CMP
+  acceptSelectors: string[]; // "Accept all" buttons, tried in order (never "continue without agreeing", which keeps consent walls up)
+  acceptMethods?: string[]; // JS API fallbacks, dotted paths on window called with `true` (e.g. "Didomi.setUserAgreeToAll")
+}
+
+/**
+ * How the banner was dismissed
+ * - click: an accept button of the CMP was clicked
+ * - api: the CMP JavaScript API accepted consent
+ * - text: a button labelled "Accepter", "Tout accepter"... was clicked (unknown CMP)
+ * - removed: nothing could accept consent, the banner was removed from the DOM
+ */
+export type ConsentDismissMethod = 'click' | 'api' | 'text' | 'removed';
+
+/**
+ * Record of a dismissed consent banner
+ */
+export interface ConsentDismissal {
+  cmp: ConsentManagementPlatform;
+  method: ConsentDismissMethod;
+  selector?: string; // Clicked selector, API method or button label
+  inFrame?: boolean; // Banner rendered in an iframe
+}
+
+export const CONSENT_BANNER_SIGNATURES: ConsentBannerSignature[] = [
+  {
+    cmp: 'didomi',
+    bannerSelectors: [
+      '#didomi-host',
+      '#didomi-popup',
+      '.didomi-popup-container',
+    ],
+    acceptSelectors: ['#didomi-notice-agree-button'],
+    acceptMethods: ['Didomi.setUserAgreeToAll'],
+  },
+  {
+    cmp: 'axeptio',
+    bannerSelectors: [
+      '#axeptio_overlay',
+      '.axeptio_widget',
+      '#axeptio_main_button',
+    ],
+    acceptSelectors: ['#axeptio_btn_acceptAll', 'button.axeptio_btn_acceptAll'],
+  },
+  {
+    cmp: 'tarteaucitron',
+    bannerSelectors: ['#tarteaucitronRoot', '#tarteaucitronAlertBig'],
+    acceptSelectors: [
+      '#tarteaucitronPersonalize2',
+      '#tarteaucitronPersonalize',
+      '#tarteaucitronAllAllowed',
+    ],
+    acceptMethods: ['tarteaucitron.userInterface.respondAll'],
+  },
+  {
+    cmp: 'onetrust',
+    bannerSelectors: ['#onetrust-banner-sdk', '#onetrust-consent-sdk'],
+    acceptSelectors: [
+      '#onetrust-accept-btn-handler',
+      '#accept-recommended-btn-handler',
+    ],
+    acceptMethods: ['OneTrust.AllowAll'],
+  },
+  {
+    cmp: 'cookiebot',
+    bannerSelectors: ['#CybotCookiebotDialog'],
+    acceptSelectors: [
+      '#CybotCookiebotDialogBodyLevelButtonLevelOptinAllowAll',
+      '#CybotCookiebotDialogBodyButtonAccept',
+    ],
+  },
+  {
+    cmp: 'quantcast',
+    bannerSelectors: ['#qc-cmp2-container', '.qc-cmp2-summary-section'],
+    acceptSelectors: [
+      '.qc-cmp2-summary-buttons button[mode="primary"]',
+      '#qc-cmp2-ui button[mode="primary"]',
+    ],
+  },
+  {
+    cmp: 'sirdata',
+    bannerSelectors: ['#sd-cmp', '.sd-cmp-container'],
+    acceptSelectors: [
+      '#sd-cmp .sd-cmp-button-accept',
+      '#sd-cmp button[class*="accept"]',
+    ],
+  },
+  {
+    cmp: 'complianz',
+    bannerSelectors: ['#cmplz-cookiebanner-container', '.cmplz-cookiebanner'],
+    acceptSelectors: ['.cmplz-btn.cmplz-accept'],
+  },
+  {
+    cmp: 'cookieyes',
+    bannerSelectors: ['.cky-consent-container', '#cookie-law-info-bar'],
+    acceptSelectors: ['.cky-btn-accept', '#cookie_action_close_header'],
+  },
+];
+
+/**
+ * Labels of accept buttons for banners that match no known CMP
+ */
+export const GENERIC_ACCEPT_LABELS: RegExp[] = [
+  /^(tout )?accepter( tout| et fermer| et continuer)?$/i,
+  /^j'accepte$/i,
+  /^(ok|d'accord|continuer)$/i,
+  /^accept( all)?( cookies)?$/i,
+  /^(i )?agree$/i,
+  /^allow all( cookies)?$/i,
+];
+
+/**
+ * Keywords a container must mention to be treated as a consent banner by the generic fallback
+ */
+export const GENERIC_CONSENT_KEYWORDS =
+  /cookie|consentement|consent|traceurs|vie privée|privacy/i;
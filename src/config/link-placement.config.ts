@@ -0,0 +1,110 @@
+/**
+ * Link Placement Configuration
+ *
+ * Rules used to classify where an anchor sits on a publisher page,
+ * based on its DOM ancestry (semantic tags, ARIA roles, id/class names).
+ */
+
+export type LinkPlacement =
+  | 'content'
+  | 'header'
+  | 'navigation'
+  | 'sidebar'
+  | 'footer'
+  | 'comments'
+  | 'author_box'
+  | 'unknown';
+
+/**
+ * Ancestor element descriptor collected in the browser for each anchor
+ */
+export interface LinkAncestor {
+  tag: string;
+  id: string;
+  className: string;
+  role: string;
+}
+
+export interface PlacementRule {
+  placement: LinkPlacement;
+  tags: string[];
+  roles: string[];
+  patterns: RegExp[]; // Tested against the id and each class token
+}
+
+/**
+ * Rules in priority order: for a given ancestor the first matching rule wins,
+ * so comments and author boxes nested in an <article> are not counted as content.
+ */
+export const LINK_PLACEMENT_RULES: PlacementRule[] = [
+  {
+    placement: 'comments',
+    tags: [],
+    roles: [],
+    patterns: [/comment/, /disqus/, /^respond$/],
+  },
+  {
+    placement: 'author_box',
+    tags: [],
+    roles: [],
+    patterns: [/author/, /^bio$/, /^vcard$/],
+  },
+  {
+    placement: 'footer',
+    tags: ['footer'],
+    roles: ['contentinfo'],
+    patterns: [/footer/, /colophon/],
+  },
+  {
+    placement: 'sidebar',
+    tags: ['aside'],
+    roles: ['complementary'],
+    patterns: [/sidebar/, /widget/],
+  },
+  {
+    placement: 'navigation',
+    tags: ['nav'],
+    roles: ['navigation', 'menubar'],
+    patterns: [/^nav/, /menu/, /breadcrumb/],
+  },
+  {
+    placement: 'header',
+    tags: ['header'],
+    roles: ['banner'],
+    patterns: [/header/, /masthead/, /^top-?bar$/],
+  },
+  {
+    placement: 'content',
+    tags: ['article', 'main'],
+    roles: ['main', 'article'],
+    patterns: [
+      /entry-content/,
+      /post-content/,
+      /article-(body|content)/,
+      /post-body/,
+      /^content$/,
+      /single-content/,
+    ],
+  },
+];
+
+/**
+ * Get the placement matched by a single ancestor element, if any
+ */
+export function matchPlacementRule(
+  ancestor: LinkAncestor,
+): LinkPlacement | undefined {
+  const names = [ancestor.id, ...ancestor.className.split(/\s+/)]
+    .map((name) => name.toLowerCase())
+    .filter(Boolean);
+  const role = ancestor.role.toLowerCase();
+
+  const rule = LINK_PLACEMENT_RULES.find(
+    (r) =>
+      r.tags.includes(ancestor.tag) ||
+      (role && r.roles.includes(role)) ||
+      names.some((name) => r.patterns.some((pattern) => pattern.test(name))),
+  );
+
+  return rule?.placement;
+}
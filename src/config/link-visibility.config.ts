@@ -0,0 +1,126 @@
+/**
+ * Link Visibility Configuration
+ *
+ * Rules for detecting links that are present in the DOM but not visible to
+ * readers, and for detecting cloaking (a different page served to Googlebot).
+ */
+
+/**
+ * Why a link is considered hidden
+ * - display_none: the anchor or an ancestor is display:none (no rendered box)
+ * - visibility_hidden: visibility:hidden/collapse
+ * - transparent: opacity (combined with ancestors) below MIN_VISIBLE_OPACITY
+ * - zero_size: the anchor and its content have no rendered area
+ * - tiny_font: font size below MIN_VISIBLE_FONT_SIZE_PX
+ * - off_screen: positioned outside the document (negative offsets, text-indent tricks)
+ * - clipped: clip / clip-path hides the whole box
+ * - same_color_as_background: text contrast below MIN_TEXT_CONTRAST_RATIO
+ */
+export type LinkHiddenReason =
+  | 'display_none'
+  | 'visibility_hidden'
+  | 'transparent'
+  | 'zero_size'
+  | 'tiny_font'
+  | 'off_screen'
+  | 'clipped'
+  | 'same_color_as_background';
+
+/**
+ * Visibility of an anchor: rendered in the browser, or from inline signals
+ * (style and hidden attributes) in raw HTML, where only hidden links get one
+ */
+export interface LinkVisibility {
+  visible: boolean;
+  reasons: LinkHiddenReason[];
+}
+
+/**
+ * Thresholds passed to the in-page visibility check
+ */
+export interface LinkVisibilityThresholds {
+  minOpacity: number;
+  minFontSizePx: number;
+  minContrastRatio: number;
+}
+
+export const LINK_VISIBILITY_THRESHOLDS: LinkVisibilityThresholds = {
+  minOpacity: 0.1,
+  minFontSizePx: 4,
+  minContrastRatio: 1.2, // 1 = same color, 21 = black on white
+};
+
+/**
+ * Hidden reasons of an element from its inline signals in raw HTML
+ * (hidden attribute, style attribute), stylesheet rules are not evaluated
+ */
+export function getInlineHiddenReasons(
+  attributes: Record<string, string>,
+  thresholds: LinkVisibilityThresholds = LINK_VISIBILITY_THRESHOLDS,
+): LinkHiddenReason[] {
+  const reasons = new Set<LinkHiddenReason>();
+  if (attributes.hidden !== undefined && attributes.hidden !== 'until-found') {
+    reasons.add('display_none');
+  }
+
+  const style: Record<string, string> = {};
+  (attributes.style || '').split(';').forEach((declaration) => {
+    const separator = declaration.indexOf(':');
+    if (separator < 0) return;
+    style[declaration.slice(0, separator).trim().toLowerCase()] = declaration
+      .slice(separator + 1)
+      .replace(/!important/i, '')
+      .trim()
+      .toLowerCase();
+  });
+  const pixels = (value: string | undefined) =>
+    value && /^-?[\d.]+(px)?$/.test(value) ? parseFloat(value) : undefined;
+
+  if (style.display === 'none') reasons.add('display_none');
+  if (style.visibility === 'hidden' || style.visibility === 'collapse') {
+    reasons.add('visibility_hidden');
+  }
+  if (style.opacity && parseFloat(style.opacity) < thresholds.minOpacity) {
+    reasons.add('transparent');
+  }
+  if ((pixels(style['font-size']) ?? Infinity) < thresholds.minFontSizePx) {
+    reasons.add('tiny_font');
+  }
+  if (
+    pixels(style.width) === 0 &&
+    pixels(style.height) === 0 &&
+    style.overflow === 'hidden'
+  ) {
+    reasons.add('zero_size');
+  }
+  if (
+    (pixels(style['text-indent']) ?? 0) <= -999 ||
+    (/^(absolute|fixed)$/.test(style.position || '') &&
+      ((pixels(style.left) ?? 0) <= -999 || (pixels(style.top) ?? 0) <= -999))
+  ) {
+    reasons.add('off_screen');
+  }
+  if (
+    /^rect\(\s*0(px)?[\s,]+0(px)?[\s,]+0(px)?[\s,]+0(px)?\s*\)$/.test(
+      style.clip || '',
+    ) ||
+    /^inset\(\s*(50|100)%/.test(style['clip-path'] || '')
+  ) {
+    reasons.add('clipped');
+  }
+
+  return Array.from(reasons);
+}
+
+/**
+ * Cloaking outcomes
+ * - hidden_from_bots: readers get the link, Googlebot does not (the link has no SEO value)
+ * - bot_only: only Googlebot gets the link
+ */
+export type CloakingType = 'hidden_from_bots' | 'bot_only';
+
+/**
+ * Googlebot smartphone user agent used to re-fetch pages for cloaking detection
+ */
+export const GOOGLEBOT_USER_AGENT =
+  'Mozilla/5.0 (Linux; Android 6.0.1; Nexus 5X Build/MMB29P) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.6099.71 Mobile Safari/537.36 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)';
@@ -0,0 +1,106 @@
+/**
+ * Netlink Alerts Configuration
+ *
+ * Webhook destinations for lost/degraded backlink alerts.
+ * Webhooks are read from the NETLINK_ALERT_WEBHOOKS environment variable (JSON array), e.g.
+ *
+ * [
+ *   { "name": "ops", "url": "https://hooks.slack.com/services/...", "format": "slack" },
+ *   { "name": "client-42", "url": "https://example.com/hook", "format": "json", "contractIds": [42] }
+ * ]
+ */
+
+/**
+ * Alertable netlink events
+ * - link_lost: the paid link disappeared from the page
+ * - link_nofollow: a dofollow link became nofollow/sponsored/ugc
+ * - page_error: the page started returning HTTP errors or became unreachable
+ */
+export type NetlinkAlertEvent = 'link_lost' | 'link_nofollow' | 'page_error';
+
+export type AlertWebhookFormat = 'json' | 'slack';
+
+export interface AlertWebhookConfig {
+  name: string; // Used in logs and as the deduplication scope
+  url: string;
+  format: AlertWebhookFormat;
+  contractIds?: Array<string | number>; // Only alerts for these contracts (all contracts when empty)
+  events?: NetlinkAlertEvent[]; // Only these events (all events when empty)
+}
+
+export const NETLINK_ALERT_EVENTS: NetlinkAlertEvent[] = [
+  'link_lost',
+  'link_nofollow',
+  'page_error',
+];
+
+export const ALERT_EVENT_LABELS: Record<NetlinkAlertEvent, string> = {
+  link_lost: 'Link lost',
+  link_nofollow: 'Link no longer dofollow',
+  page_error: 'Page error',
+};
+
+/**
+ * Maximum alerts per digest message (larger digests are split)
+ */
+export const ALERT_DIGEST_MAX_ITEMS = 50;
+
+/**
+ * Parse and validate the webhook list from its JSON configuration
+ * Invalid entries are dropped and reported in `errors`
+ */
+export function parseAlertWebhooks(raw?: string): {
+  webhooks: AlertWebhookConfig[];
+  errors: string[];
+} {
+  const webhooks: AlertWebhookConfig[] = [];
+  const errors: string[] = [];
+
+  if (!raw || !raw.trim()) {
+    return { webhooks, errors };
+  }
+
+  let entries: any;
+  try {
+    entries = JSON.parse(raw);
+  } catch (error) {
+    return { webhooks, errors: [`Invalid JSON: ${error.message}`] };
+  }
+
+  if (!Array.isArray(entries)) {
+    return { webhooks, errors: ['Webhook configuration must be a JSON array'] };
+  }
+
+  entries.forEach((entry, index) => {
+    const name = entry?.name || `webhook-${index + 1}`;
+
+    if (!entry?.url || typeof entry.url !== 'string') {
+      errors.push(`${name}: missing url`);
+      return;
+    }
+
+    const format: AlertWebhookFormat = entry.format || 'json';
+    if (format !== 'json' && format !== 'slack') {
+      errors.push(`${name}: unknown format "${entry.format}"`);
+      return;
+    }
+
+    const events = Array.isArray(entry.events)
+      ? entry.events.filter((event: NetlinkAlertEvent) =>
+          NETLINK_ALERT_EVENTS.includes(event),
+        )
+      : undefined;
+
+    webhooks.push({
+      name,
+      url: entry.url,
+      format,
+      contractIds: Array.isArray(entry.contractIds)
+        ? entry.contractIds
+        : undefined,
+      events,
+    });
+  });
+
+  return { webhooks, errors };
+}
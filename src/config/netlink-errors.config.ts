@@ -0,0 +1,122 @@
+/**
+ * Netlink Error Configuration
+ *
+ * Stable taxonomy of failed netlink checks, so a dead site (DNS failure,
+ * parked domain) can be told apart from a flaky check (timeout, browser crash).
+ */
+
+/**
+ * Category of a failed netlink check
+ * - dns_failure: the domain does not resolve (often expired)
+ * - connection_refused: connection refused, reset or host unreachable
+ * - tls_error: invalid, expired or self-signed certificate, TLS handshake failure
+ * - timeout: navigation or request timeout
+ * - http_4xx / http_5xx: the page answered with an error status and no link
+ * - bot_challenge: anti-bot interstitial, captcha or WAF block
+ * - browser_crash: the browser, context or page closed during the check
+ * - parked_domain: the domain shows a parking or "domain for sale" page
+ * - unknown: none of the above
+ */
+export type NetlinkErrorCategory =
+  | 'dns_failure'
+  | 'connection_refused'
+  | 'tls_error'
+  | 'timeout'
+  | 'http_4xx'
+  | 'http_5xx'
+  | 'bot_challenge'
+  | 'browser_crash'
+  | 'parked_domain'
+  | 'unknown';
+
+/**
+ * Error message/code patterns of each category, checked in order
+ * Covers Chromium net:: errors, Playwright errors and Node/axios error codes
+ */
+export const NETLINK_ERROR_PATTERNS: Array<{
+  category: NetlinkErrorCategory;
+  patterns: RegExp[];
+}> = [
+  {
+    category: 'browser_crash',
+    patterns: [
+      /target page, context or browser has been closed/i,
+      /browser has disconnected/i,
+      /session closed/i,
+      /cdpSession/i,
+      /page crashed/i,
+      /target crashed/i,
+    ],
+  },
+  {
+    category: 'dns_failure',
+    patterns: [
+      /ERR_NAME_NOT_RESOLVED/,
+      /ERR_NAME_RESOLUTION_FAILED/,
+      /\bENOTFOUND\b/,
+      /\bEAI_AGAIN\b/,
+    ],
+  },
+  {
+    category: 'tls_error',
+    patterns: [
+      /ERR_CERT_/,
+      /ERR_SSL_/,
+      /ERR_BAD_SSL_CLIENT_AUTH_CERT/,
+      /CERT_HAS_EXPIRED/,
+      /UNABLE_TO_VERIFY_LEAF_SIGNATURE/,
+      /SELF_SIGNED_CERT/,
+      /ERR_TLS_CERT_ALTNAME_INVALID/,
+      /\bEPROTO\b/,
+      /certificate|ssl3?_|tlsv1 alert|wrong version number/i,
+    ],
+  },
+  {
+    category: 'connection_refused',
+    patterns: [
+      /ERR_CONNECTION_REFUSED/,
+      /ERR_CONNECTION_RESET/,
+      /ERR_CONNECTION_CLOSED/,
+      /ERR_ADDRESS_UNREACHABLE/,
+      /ERR_EMPTY_RESPONSE/,
+      /\bECONNREFUSED\b/,
+      /\bECONNRESET\b/,
+      /\bEHOSTUNREACH\b/,
+      /\bENETUNREACH\b/,
+      /socket hang up/i,
+    ],
+  },
+  {
+    category: 'timeout',
+    patterns: [
+      /ERR_TIMED_OUT/,
+      /ERR_CONNECTION_TIMED_OUT/,
+      /\bETIMEDOUT\b/,
+      /\bECONNABORTED\b/,
+      /timeout (of )?\d+ ?ms exceeded/i,
+      /timed? ?out/i,
+    ],
+  },
+];
+
+/**
+ * Classify a failed check from its HTTP status or error message/code
+ */
+export function classifyNetlinkError(
+  error: { message?: string; code?: string } | string | undefined,
+  statusCode?: number,
+): NetlinkErrorCategory {
+  if (statusCode !== undefined && statusCode >= 500) return 'http_5xx';
+  if (statusCode !== undefined && statusCode >= 400) return 'http_4xx';
+
+  const text =
+    typeof error === 'string'
+      ? error
+      : [error?.code, error?.message].filter(Boolean).join(' ');
+  if (!text) return 'unknown';
+
+  const entry = NETLINK_ERROR_PATTERNS.find(({ patterns }) =>
+    patterns.some((pattern) => pattern.test(text)),
+  );
+  return entry ? entry.category : 'unknown';
+}
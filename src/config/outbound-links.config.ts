@@ -0,0 +1,201 @@
+/**
+ * Outbound Links Configuration
+ *
+ * Rules used to profile the outbound links of a netlink page: links to toxic
+ * categories (casino, adult, pharma, loans) and link farm thresholds.
+ * The default domains and keywords can be extended with NETLINK_TOXIC_LINK_RULES.
+ */
+
+export type ToxicLinkCategory = 'casino' | 'adult' | 'pharma' | 'loans';
+
+export const TOXIC_LINK_CATEGORIES: ToxicLinkCategory[] = [
+  'casino',
+  'adult',
+  'pharma',
+  'loans',
+];
+
+/**
+ * Domains and keywords of a toxic category
+ * Domains match their subdomains, keywords are searched in the host, path and
+ * anchor text of external links (substring match, so keep them specific)
+ */
+export interface ToxicLinkRule {
+  domains: string[];
+  keywords: string[];
+}
+
+export const DEFAULT_TOXIC_LINK_RULES: Record<
+  ToxicLinkCategory,
+  ToxicLinkRule
+> = {
+  casino: {
+    domains: [
+      'pokerstars.com',
+      'pokerstars.fr',
+      'winamax.fr',
+      'unibet.fr',
+      'betclic.fr',
+      'bwin.com',
+      '888casino.com',
+      'stake.com',
+    ],
+    keywords: [
+      'casino',
+      'poker',
+      'roulette',
+      'blackjack',
+      'machine-a-sous',
+      'machines-a-sous',
+      'slot-machine',
+      'free-spins',
+      'paris-sportifs',
+      'betting',
+    ],
+  },
+  adult: {
+    domains: [
+      'pornhub.com',
+      'xvideos.com',
+      'xhamster.com',
+      'youporn.com',
+      'onlyfans.com',
+      'chaturbate.com',
+    ],
+    keywords: ['porn', 'xxx', 'escort', 'camgirl', 'webcam-sex', 'sexcam'],
+  },
+  pharma: {
+    domains: [],
+    keywords: [
+      'viagra',
+      'cialis',
+      'levitra',
+      'kamagra',
+      'tadalafil',
+      'sildenafil',
+      'pharmacie-en-ligne',
+      'online-pharmacy',
+      'buy-pills',
+    ],
+  },
+  loans: {
+    domains: [],
+    keywords: [
+      'payday',
+      'credit-rapide',
+      'pret-rapide',
+      'pret-sans-justificatif',
+      'mini-pret',
+      'quick-loan',
+      'fast-loan',
+      'loan-now',
+    ],
+  },
+};
+
+/**
+ * Signals of a page that looks like a link farm
+ * - many_external_domains: links to at least maxExternalDomains external domains
+ * - mostly_outbound: most links of the page leave the site
+ * - all_dofollow: nearly every outbound link passes PageRank
+ * - toxic_neighbors: links to toxic categories next to the netlink
+ */
+export type LinkFarmSignal =
+  | 'many_external_domains'
+  | 'mostly_outbound'
+  | 'all_dofollow'
+  | 'toxic_neighbors';
+
+export interface LinkFarmThresholds {
+  maxExternalDomains: number;
+  minOutboundShare: number; // External links / all links
+  minDofollowShare: number; // Dofollow external links / external links
+  minExternalLinks: number; // Share-based signals only apply above this many external links
+  minToxicLinks: number;
+  minSignals: number; // Signals needed to flag the page as a link farm
+}
+
+export const DEFAULT_LINK_FARM_THRESHOLDS: LinkFarmThresholds = {
+  maxExternalDomains: 50,
+  minOutboundShare: 0.6,
+  minDofollowShare: 0.95,
+  minExternalLinks: 20,
+  minToxicLinks: 3,
+  minSignals: 2,
+};
+
+/**
+ * Parse and validate extra toxic domains/keywords from their JSON configuration
+ * e.g. {"casino": {"domains": ["casino-x.com"], "keywords": ["jackpot"]}}
+ * Entries are added to the default rules, invalid ones are dropped and reported in `errors`
+ */
+export function parseToxicLinkRules(raw?: string): {
+  rules: Record<ToxicLinkCategory, ToxicLinkRule>;
+  errors: string[];
+} {
+  const rules = {} as Record<ToxicLinkCategory, ToxicLinkRule>;
+  TOXIC_LINK_CATEGORIES.forEach((category) => {
+    rules[category] = {
+      domains: [...DEFAULT_TOXIC_LINK_RULES[category].domains],
+      keywords: [...DEFAULT_TOXIC_LINK_RULES[category].keywords],
+    };
+  });
+  const errors: string[] = [];
+
+  if (!raw || !raw.trim()) {
+    return { rules, errors };
+  }
+
+  let entries: any;
+  try {
+    entries = JSON.parse(raw);
+  } catch (error) {
+    return { rules, errors: [`Invalid JSON: ${error.message}`] };
+  }
+
+  if (!entries || typeof entries !== 'object' || Array.isArray(entries)) {
+    return {
+      rules,
+      errors: ['Toxic link rules must be a JSON object (category -> rule)'],
+    };
+  }
+
+  const isStringList = (value: any) =>
+    value === undefined ||
+    (Array.isArray(value) && value.every((item) => typeof item === 'string'));
+
+  Object.entries(entries).forEach(([category, entry]: [string, any]) => {
+    if (!TOXIC_LINK_CATEGORIES.includes(category as ToxicLinkCategory)) {
+      errors.push(
+        `unknown category "${category}" (expected ${TOXIC_LINK_CATEGORIES.join(', ')})`,
+      );
+      return;
+    }
+    if (
+      !entry ||
+      typeof entry !== 'object' ||
+      !isStringList(entry.domains) ||
+      !isStringList(entry.keywords)
+    ) {
+      errors.push(
+        `${category}: expected {"domains": string[], "keywords": string[]}`,
+      );
+      return;
+    }
+
+    const rule = rules[category as ToxicLinkCategory];
+    (entry.domains || []).forEach((domain: string) =>
+      rule.domains.push(
+        domain
+          .trim()
+          .toLowerCase()
+          .replace(/^www\./, ''),
+      ),
+    );
+    (entry.keywords || []).forEach((keyword: string) =>
+      rule.keywords.push(keyword.trim().toLowerCase()),
+    );
+  });
+
+  return { rules, errors };
+}
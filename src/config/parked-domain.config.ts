@@ -0,0 +1,223 @@
+/**
+ * Parked Domain Configuration
+ *
+ * Fingerprints of registrar parking pages and domain-for-sale landers.
+ * When a publisher lets their domain lapse, the URL often answers 200 with
+ * one of these pages: the netlink is reported as "domain parked/expired"
+ * instead of "site up, link missing".
+ */
+
+export type ParkedDomainProvider =
+  | 'sedo'
+  | 'bodis'
+  | 'parkingcrew'
+  | 'above'
+  | 'godaddy'
+  | 'afternic'
+  | 'dan'
+  | 'hugedomains'
+  | 'namecheap'
+  | 'ovh'
+  | 'gandi'
+  | 'ionos'
+  | 'hostinger'
+  | 'generic';
+
+export interface ParkedDomainSignature {
+  provider: ParkedDomainProvider;
+  titlePatterns: RegExp[];
+  htmlPatterns: RegExp[];
+  landingHosts?: string[]; // Marketplace hosts the expired domain redirects to
+}
+
+/**
+ * Page data used for detection
+ */
+export interface ParkedDomainInput {
+  url: string;
+  finalUrl?: string; // URL after redirects
+  title?: string;
+  html?: string;
+  textLength?: number; // Length of the visible body text
+}
+
+export interface ParkedDomainDetection {
+  provider: ParkedDomainProvider;
+  signals: string[];
+}
+
+/**
+ * Parking pages are templated landers with little text, generic patterns
+ * only apply below this visible text length
+ */
+export const PARKED_PAGE_MAX_TEXT_LENGTH = 1500;
+
+/**
+ * Pages with more visible text than this are live sites, provider
+ * fingerprints found there are mentions (e.g. an article about Sedo)
+ */
+export const LIVE_PAGE_MIN_TEXT_LENGTH = 5000;
+
+export const PARKED_DOMAIN_SIGNATURES: ParkedDomainSignature[] = [
+  {
+    provider: 'sedo',
+    titlePatterns: [],
+    htmlPatterns: [/sedoparking\.com/i, /img\.sedoparking\.com/i],
+    landingHosts: ['sedo.com'],
+  },
+  {
+    provider: 'bodis',
+    titlePatterns: [],
+    htmlPatterns: [/bodis\.com/i, /window\.park\s*=/i],
+  },
+  {
+    provider: 'parkingcrew',
+    titlePatterns: [],
+    htmlPatterns: [/parkingcrew\.net/i],
+  },
+  {
+    provider: 'above',
+    titlePatterns: [],
+    htmlPatterns: [/above\.com\/marketplace/i, /trafficsale\.above\.com/i],
+  },
+  {
+    provider: 'godaddy',
+    titlePatterns: [],
+    htmlPatterns: [
+      /img\d?\.wsimg\.com\/parking-lander/i,
+      /parking-lander/i,
+      /godaddy\.com\/domainsearch\/find/i,
+    ],
+  },
+  {
+    provider: 'afternic',
+    titlePatterns: [],
+    htmlPatterns: [/afternic\.com\/forsale/i],
+    landingHosts: ['afternic.com'],
+  },
+  {
+    provider: 'dan',
+    titlePatterns: [],
+    htmlPatterns: [/dan\.com\/buy-domain/i, /undeveloped\.com/i],
+    landingHosts: ['dan.com', 'undeveloped.com'],
+  },
+  {
+    provider: 'hugedomains',
+    titlePatterns: [/hugedomains/i],
+    htmlPatterns: [/hugedomains\.com\/domain_profile/i],
+    landingHosts: ['hugedomains.com', 'buydomains.com'],
+  },
+  {
+    provider: 'namecheap',
+    titlePatterns: [],
+    htmlPatterns: [/parkingpage\.namecheap\.com/i, /namecheap.{0,40}parking/i],
+  },
+  {
+    provider: 'ovh',
+    titlePatterns: [],
+    htmlPatterns: [
+      /cette page est g[ée]n[ée]r[ée]e automatiquement par ovh/i,
+      /votre domaine a bien [ée]t[ée] cr[ée][ée] chez ovh/i,
+    ],
+  },
+  {
+    provider: 'gandi',
+    titlePatterns: [],
+    htmlPatterns: [
+      /gandi\.net.{0,200}(parked|parking)/is,
+      /ce domaine est parqu[ée]/i,
+    ],
+  },
+  {
+    provider: 'ionos',
+    titlePatterns: [],
+    htmlPatterns: [
+      /ionos.{0,200}(domain (is )?reserved|domaine (est )?r[ée]serv[ée])/is,
+    ],
+  },
+  {
+    provider: 'hostinger',
+    titlePatterns: [/parked domain name on hostinger/i],
+    htmlPatterns: [/parked domain name on hostinger/i],
+  },
+];
+
+/**
+ * "Domain for sale" / parking phrases of unknown providers (sparse pages only)
+ */
+export const GENERIC_PARKED_PATTERNS: RegExp[] = [
+  /this domain (name )?(is|may be) for sale/i,
+  /buy this domain/i,
+  /the domain .{1,80} is for sale/i,
+  /ce (nom de )?domaine est [àa] vendre/i,
+  /acheter ce (nom de )?domaine/i,
+  /domain (is )?parked/i,
+  /parked (free|domain)/i,
+  /ce (nom de )?domaine a [ée]t[ée] (enregistr|r[ée]serv)[ée]/i,
+  /this domain has (expired|been registered)/i,
+  /ce (nom de )?domaine a expir[ée]/i,
+];
+
+/**
+ * Detect a parking page or domain-for-sale lander
+ * Returns null when the page looks like a live site
+ */
+export function detectParkedDomain(
+  input: ParkedDomainInput,
+): ParkedDomainDetection | null {
+  const title = (input.title || '').trim();
+  const html = input.html || '';
+  const finalHost = getHostname(input.finalUrl || input.url);
+  const originalHost = getHostname(input.url);
+  const isLivePage =
+    input.textLength !== undefined &&
+    input.textLength >= LIVE_PAGE_MIN_TEXT_LENGTH;
+
+  for (const signature of PARKED_DOMAIN_SIGNATURES) {
+    const signals: string[] = [];
+
+    if (
+      finalHost &&
+      finalHost !== originalHost &&
+      signature.landingHosts?.some(
+        (host) => finalHost === host || finalHost.endsWith(`.${host}`),
+      )
+    ) {
+      signals.push(`redirect: ${finalHost}`);
+    }
+
+    if (!isLivePage) {
+      signature.titlePatterns
+        .filter((pattern) => pattern.test(title))
+        .forEach(() => signals.push(`title: ${title}`));
+
+      signature.htmlPatterns
+        .filter((pattern) => pattern.test(html))
+        .forEach((pattern) => signals.push(`html: ${pattern.source}`));
+    }
+
+    if (signals.length > 0) {
+      return { provider: signature.provider, signals };
+    }
+  }
+
+  // Generic phrases also appear in blog posts about domains, only trust them on templated pages
+  const isSparse =
+    input.textLength !== undefined &&
+    input.textLength < PARKED_PAGE_MAX_TEXT_LENGTH;
+  if (!isSparse) return null;
+
+  const signals = GENERIC_PARKED_PATTERNS.filter(
+    (pattern) => pattern.test(title) || pattern.test(html),
+  ).map((pattern) => `text: ${pattern.source}`);
+
+  return signals.length > 0 ? { provider: 'generic', signals } : null;
+}
+
+function getHostname(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Redirect Links Configuration
+ *
+ * Patterns of outbound links that go through a redirect before reaching their destination:
+ * URL shorteners, affiliate/tracking redirects and publisher "/go/" cloaking paths.
+ * Only anchors matching these patterns are resolved, so a page with hundreds of
+ * links does not trigger hundreds of requests.
+ */
+
+/**
+ * URL shortener and tracking redirect hosts (subdomains included)
+ */
+export const REDIRECT_HOSTS: string[] = [
+  // Shorteners
+  'bit.ly',
+  'bitly.com',
+  't.co',
+  'goo.gl',
+  'tinyurl.com',
+  'ow.ly',
+  'buff.ly',
+  'is.gd',
+  'rebrand.ly',
+  'lnkd.in',
+  'shorturl.at',
+  'cutt.ly',
+  't.ly',
+  'tiny.cc',
+  'rb.gy',
+  'bl.ink',
+  'short.io',
+  // Affiliate and tracking redirects
+  'awin1.com',
+  'effiliation.com',
+  'tradedoubler.com',
+  'redirectingat.com',
+  'linksynergy.com',
+  'prf.hn',
+  'shareasale.com',
+  'tradetracker.net',
+  'metaffiliation.com',
+  'zanox.com',
+  'pxf.io',
+  'sjv.io',
+  'anrdoezrs.net',
+  'dpbolvw.net',
+  'jdoqocy.com',
+  'tkqlhce.com',
+  'kqzyfj.com',
+];
+
+/**
+ * Paths of publisher-side redirects (e.g. /go/client, /out?url=..., /recommends/client)
+ */
+export const REDIRECT_PATH_PATTERNS: RegExp[] = [
+  /^\/(go|goto|out|outbound|link|links|redirect|redir|recommends|visit|refer|aff|affiliate|track|click|clic|sortie|lien)(\/|$)/i,
+  /\/(go|out|redirect|redir|click|track)\.(php|aspx?)$/i,
+];
+
+/**
+ * Query parameters carrying the redirect destination (e.g. ?url=https%3A%2F%2Fclient.fr)
+ */
+export const REDIRECT_TARGET_PARAMS: string[] = [
+  'url',
+  'u',
+  'to',
+  'target',
+  'dest',
+  'destination',
+  'redirect',
+  'redirect_url',
+  'redirect_uri',
+  'goto',
+  'out',
+  'link',
+  'r',
+];
+
+/**
+ * Maximum anchors resolved through redirects per page
+ */
+export const MAX_REDIRECT_CANDIDATES_PER_PAGE = 20;
+
+/**
+ * Destination URL embedded in a redirect query parameter (undefined when there is none)
+ */
+export function extractRedirectTarget(href: string): string | undefined {
+  let parsed: URL;
+  try {
+    parsed = new URL(href);
+  } catch {
+    return undefined;
+  }
+
+  for (const name of REDIRECT_TARGET_PARAMS) {
+    const value = parsed.searchParams.get(name);
+    if (value && /^https?:\/\//i.test(value)) {
+      return value;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Check whether an anchor looks like it goes through a redirect
+ */
+export function isRedirectCandidate(href: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(href);
+  } catch {
+    return false;
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return false;
+  }
+
+  const hostname = parsed.hostname.toLowerCase().replace(/^www\./, '');
+  if (
+    REDIRECT_HOSTS.some(
+      (host) => hostname === host || hostname.endsWith(`.${host}`),
+    )
+  ) {
+    return true;
+  }
+
+  if (REDIRECT_PATH_PATTERNS.some((pattern) => pattern.test(parsed.pathname))) {
+    return true;
+  }
+
+  return extractRedirectTarget(href) !== undefined;
+}
@@ -0,0 +1,118 @@
+/**
+ * Sponsored Disclosure Configuration
+ *
+ * Labels publishers use to disclose bought posts ("article sponsorisé",
+ * "en partenariat avec", "publireportage"...). A disclosed post is visible to
+ * Google as paid content, which lowers the value of the netlink.
+ */
+
+/**
+ * Where a disclosure was found
+ * - label: disclosure sentence in the post text
+ * - badge: short element whose whole text is a disclosure label, or whose class/id marks it as sponsored
+ * - category: post category or tag (rel="category tag" links, article:section/article:tag meta, post classes)
+ * - schema: AdvertiserContentArticle type or sponsor property in JSON-LD/microdata
+ */
+export type SponsoredDisclosureSource =
+  | 'label'
+  | 'badge'
+  | 'category'
+  | 'schema';
+
+export interface SponsoredDisclosureMatch {
+  source: SponsoredDisclosureSource;
+  value: string; // Matched text, class, category or schema property
+}
+
+export interface SponsoredDisclosure {
+  disclosed: boolean;
+  sources: SponsoredDisclosureSource[];
+  matches: SponsoredDisclosureMatch[];
+}
+
+/**
+ * Disclosure sentences, searched in the post text
+ * "Partenariat" alone is not enough: it is a common menu entry ("work with us")
+ */
+export const SPONSORED_TEXT_PATTERNS: RegExp[] = [
+  // French
+  /\b(articles?|contenus?|publications?|posts?|billets?|communiqu[ée]s?) sponsoris[ée]e?s?/i,
+  /\bsponsoris[ée]e?s? par\b/i,
+  /\b(cet |cette )?(article|contenu|publication|billet)\b[^.]{0,40}\ben partenariat avec\b/i,
+  /\bpartenariat r[ée]mun[ée]r[ée]/i,
+  /\b(article|contenu) partenaire\b/i,
+  /\bpubli-?r[ée]dactionnel\b/i,
+  /\bpubli-?reportage\b/i,
+  // English
+  /\bsponsored (post|content|article)\b/i,
+  /\bthis (post|article) (is|was) sponsored\b/i,
+  /\bsponsored by\b/i,
+  /\bpaid (partnership|post)\b/i,
+  /\badvertorial\b/i,
+];
+
+/**
+ * Whole text of a disclosure badge (compared after normalization: lowercase, no accents)
+ */
+export const SPONSORED_BADGE_LABELS: string[] = [
+  'sponsorise',
+  'sponsorisee',
+  'article sponsorise',
+  'contenu sponsorise',
+  'publication sponsorisee',
+  'partenariat remunere',
+  'contenu partenaire',
+  'article partenaire',
+  'publireportage',
+  'publi reportage',
+  'publi redactionnel',
+  'publiredactionnel',
+  'sponsored',
+  'sponsored post',
+  'sponsored content',
+  'paid partnership',
+  'advertorial',
+];
+
+/**
+ * Category or tag names of disclosed posts, badge labels included
+ */
+export const SPONSORED_CATEGORY_LABELS: string[] = [
+  ...SPONSORED_BADGE_LABELS,
+  'partenariat',
+  'partenariats',
+  'en partenariat',
+  'partenaire',
+  'partenaires',
+  'sponso',
+  'sponsor',
+  'sponsors',
+];
+
+/**
+ * Class/id tokens of sponsored badges and post containers
+ */
+export const SPONSORED_CLASS_PATTERN =
+  /(^|[\s_-])(sponsored|sponsorise|sponsorisee|advertorial|publireportage|publi-redactionnel|partner-content|paid-content)($|[\s_-])/i;
+
+/**
+ * Class/id of recommendation widgets, whose "Sponsored" headers are not about the post
+ */
+export const RECOMMENDATION_WIDGET_PATTERN = /taboola|outbrain|ligatus|mgid/i;
+
+/**
+ * schema.org types of sponsored content
+ */
+export const SPONSORED_SCHEMA_TYPES: string[] = ['AdvertiserContentArticle'];
+
+/**
+ * Lowercase, remove accents and punctuation, collapse whitespace
+ */
+export function normalizeDisclosureLabel(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
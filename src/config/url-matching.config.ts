@@ -0,0 +1,110 @@
+/**
+ * URL Matching Configuration
+ *
+ * How a link found on a netlink page is compared with the contract landing page.
+ * Both URLs are canonicalized first (see UrlMatcherService), then scored:
+ *
+ * - exact: same host, path and query
+ * - same_path: same host and path, different query
+ * - path_prefix: the link points below the landing page path (segment boundary, /shoes -> /shoes/red)
+ * - domain: same host, unrelated path
+ * - subdomain: one host is a subdomain of the other
+ *
+ * The match policy of a contract sets the lowest accepted match.
+ * Policies are read from NETLINK_MATCH_POLICIES (JSON object, contract ID -> policy), e.g.
+ *
+ * { "42": "path_prefix", "57": "domain" }
+ */
+
+/**
+ * Match policies
+ * - exact: the link must point to the landing page itself (query may differ)
+ * - path_prefix: the landing page or any page below it
+ * - domain: any page of the landing page domain, subdomains included
+ */
+export type UrlMatchPolicy = 'exact' | 'path_prefix' | 'domain';
+
+export type UrlMatchType =
+  | 'exact'
+  | 'same_path'
+  | 'path_prefix'
+  | 'domain'
+  | 'subdomain';
+
+export const URL_MATCH_POLICIES: UrlMatchPolicy[] = [
+  'exact',
+  'path_prefix',
+  'domain',
+];
+
+export const DEFAULT_URL_MATCH_POLICY: UrlMatchPolicy = 'exact';
+
+/**
+ * Score of each match type (0-100)
+ */
+export const URL_MATCH_SCORES: Record<UrlMatchType, number> = {
+  exact: 100,
+  same_path: 90,
+  path_prefix: 70,
+  domain: 40,
+  subdomain: 30,
+};
+
+/**
+ * Lowest score accepted as a match by each policy
+ */
+export const URL_MATCH_POLICY_MIN_SCORES: Record<UrlMatchPolicy, number> = {
+  exact: URL_MATCH_SCORES.same_path,
+  path_prefix: URL_MATCH_SCORES.path_prefix,
+  domain: URL_MATCH_SCORES.subdomain,
+};
+
+/**
+ * Query parameters dropped during canonicalization (analytics and click tracking)
+ */
+export const TRACKING_PARAM_PATTERNS: RegExp[] = [
+  /^utm_/i,
+  /^(gclid|dclid|gbraid|wbraid|fbclid|msclkid|yclid|twclid|ttclid|igshid)$/i,
+  /^(mc_cid|mc_eid|_hsenc|_hsmi|mkt_tok|_ga|_gl)$/i,
+  /^(xtor|at_medium|at_campaign)$/i,
+];
+
+/**
+ * Parse and validate the per-contract match policies from their JSON configuration
+ * Invalid entries are dropped and reported in `errors`
+ */
+export function parseMatchPolicies(raw?: string): {
+  policies: Record<string, UrlMatchPolicy>;
+  errors: string[];
+} {
+  const policies: Record<string, UrlMatchPolicy> = {};
+  const errors: string[] = [];
+
+  if (!raw || !raw.trim()) {
+    return { policies, errors };
+  }
+
+  let entries: any;
+  try {
+    entries = JSON.parse(raw);
+  } catch (error) {
+    return { policies, errors: [`Invalid JSON: ${error.message}`] };
+  }
+
+  if (!entries || typeof entries !== 'object' || Array.isArray(entries)) {
+    return {
+      policies,
+      errors: ['Match policies must be a JSON object (contract ID -> policy)'],
+    };
+  }
+
+  Object.entries(entries).forEach(([contractId, policy]) => {
+    if (!URL_MATCH_POLICIES.includes(policy as UrlMatchPolicy)) {
+      errors.push(`contract ${contractId}: unknown policy "${policy}"`);
+      return;
+    }
+    policies[contractId] = policy as UrlMatchPolicy;
+  });
+
+  return { policies, errors };
+}
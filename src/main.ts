@@ -1,9 +1,13 @@
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
 import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import * as cron from 'node-cron';
 import { NetlinkScraperService } from './modules/paperclub/services/netlink-scraper.service';
 import { NetlinkService } from './modules/paperclub/services/netlink.service';
+import { NetlinkHistoryService } from './modules/paperclub/services/netlink-history.service';
+import { NetlinkAlertService } from './modules/paperclub/services/netlink-alert.service';
+import { NetlinkRunCheckpointService } from './modules/paperclub/services/netlink-run-checkpoint.service';
 import { DomDetailerService } from './common/domdetailer.service';
 import { DashboardHttpClient } from './common/dashboard-http-client.service';
 
@@ -26,24 +30,86 @@ async function bootstrap() {
 }
 
 /**
- * Run the netlink scraper cron job
- * Page = day of month (1-31), so each day scrapes a different page
+ * Prefix of the checkpointed nightly scraper runs
  */
-async function runNetlinkScraperJob() {
-  const dayOfMonth = new Date().getDate(); // 1-31
-  logger.log(`Starting scheduled netlink scraper job (Day ${dayOfMonth}, Page ${dayOfMonth})...`);
+const NETLINK_RUN_PREFIX = 'netlink-scraper-';
 
-  const app = await NestFactory.createApplicationContext(AppModule);
+/**
+ * Nightly scraper runs in progress in this process, so the cron and the startup
+ * resume never process the same run at the same time
+ */
+const activeNetlinkRuns = new Set<string>();
+
+/**
+ * Run ID of the nightly scraper job for a date (one run per day)
+ */
+function getNetlinkRunId(date: Date = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${NETLINK_RUN_PREFIX}${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Day of month of a nightly run (1-31), from its run ID
+ */
+function getNetlinkRunDay(runId: string): number {
+  const day = Number(runId.slice(NETLINK_RUN_PREFIX.length).split('-')[2]);
+  return day >= 1 && day <= 31 ? day : new Date().getDate();
+}
+
+/**
+ * Run the netlink scraper cron job
+ * Page = day of month (1-31) of the run, so each day scrapes a different page
+ * The run is checkpointed, so a restarted process resumes it instead of starting over
+ *
+ * Environment Variables:
+ * - NETLINK_NIGHTLY_FAST_MODE: Try a plain HTTP fetch before the browser (default: false)
+ * - NETLINK_NIGHTLY_RECORD_HISTORY: Record check history and report changes since last check (default: true)
+ * - NETLINK_NIGHTLY_ARCHIVE_SNAPSHOTS: Archive a gzip HTML snapshot of each checked page (default: false)
+ */
+async function runNetlinkScraperJob(runId: string = getNetlinkRunId()) {
+  if (activeNetlinkRuns.has(runId)) {
+    logger.warn(`Run ${runId} is already in progress, skipping`);
+    return;
+  }
+  activeNetlinkRuns.add(runId);
+
+  const dayOfMonth = getNetlinkRunDay(runId); // 1-31
+  logger.log(
+    `Starting scheduled netlink scraper job (Day ${dayOfMonth}, Page ${dayOfMonth}, Run ${runId})...`,
+  );
+
+  const app = await NestFactory.createApplicationContext(AppModule).catch(
+    (error) => {
+      activeNetlinkRuns.delete(runId);
+      throw error;
+    },
+  );
   const scraperService = app.get(NetlinkScraperService);
   const netlinkService = app.get(NetlinkService);
+  const historyService = app.get(NetlinkHistoryService);
+  const alertService = app.get(NetlinkAlertService);
+  const checkpointService = app.get(NetlinkRunCheckpointService);
+  const configService = app.get(ConfigService);
 
   try {
-    // Fetch page based on day of month
-    logger.log(`Fetching page ${dayOfMonth} with limit 200...`);
-    const response = await netlinkService.fetchPage(dayOfMonth, 200);
-    const netlinks = response.data;
-
-    logger.log(`Fetched ${netlinks.length} netlinks (Page ${dayOfMonth}/${response.pagination.totalPages}). Starting scraping...`);
+    // Reuse the work queue of an interrupted run, otherwise fetch page based on day of month
+    const existingRun = await checkpointService.loadRun(runId);
+    let netlinks;
+
+    if (existingRun) {
+      netlinks = existingRun.manifest.netlinks;
+      logger.log(
+        `Resuming run ${runId} (${existingRun.results.length}/${netlinks.length} already scraped)...`,
+      );
+    } else {
+      logger.log(`Fetching page ${dayOfMonth} with limit 200...`);
+      const response = await netlinkService.fetchPage(dayOfMonth, 200);
+      netlinks = response.data;
+
+      logger.log(
+        `Fetched ${netlinks.length} netlinks (Page ${dayOfMonth}/${response.pagination.totalPages}). Starting scraping...`,
+      );
+    }
 
     // Scrape them
     const results = await scraperService.scrapeNetlinks(netlinks, {
@@ -51,6 +117,17 @@ async function runNetlinkScraperJob() {
       timeout: 30000,
       retries: 2,
       delay: 500,
+      fastMode:
+        String(configService.get('NETLINK_NIGHTLY_FAST_MODE', 'false')) ===
+        'true',
+      recordHistory:
+        String(configService.get('NETLINK_NIGHTLY_RECORD_HISTORY', 'true')) !==
+        'false',
+      archiveSnapshots:
+        String(
+          configService.get('NETLINK_NIGHTLY_ARCHIVE_SNAPSHOTS', 'false'),
+        ) === 'true',
+      runId,
       onProgress: (current, total, url) => {
         if (current % 20 === 0 || current === total) {
           logger.log(`Progress: ${current}/${total}`);
@@ -60,16 +137,63 @@ async function runNetlinkScraperJob() {
 
     // Post all results to API
     const successCount = results.filter(r => r.success).length;
-    await scraperService.postBatchResults(results);
+    await scraperService.postBatchResults(results, { runId });
 
     logger.log(`Netlink scraper completed - Page: ${dayOfMonth}, Total: ${results.length}, Success: ${successCount}, Failed: ${results.length - successCount}`);
+
+    // Changes since last check (lost links, rel/status changes, match downgrades)
+    const changes = scraperService.getChangesSinceLastCheck(results);
+    if (changes.length > 0) {
+      const reportPath = await historyService.saveChangeReport(changes);
+      logger.log(
+        `${changes.length} netlinks changed since last check (report: ${reportPath})`,
+      );
+      changes.forEach((change) => {
+        const summary = change.transitions
+          .map((t) => `${t.type} ${t.from} -> ${t.to}`)
+          .join(', ');
+        logger.log(`  - #${change.netlinkId} ${change.url}: ${summary}`);
+      });
+    } else {
+      logger.log('No changes since last check');
+    }
+
+    // Alert configured webhooks about lost/degraded links
+    const alertSummary = await alertService.dispatch(changes);
+    if (alertSummary.alerts > 0) {
+      logger.log(
+        `Alerts - Detected: ${alertSummary.alerts}, Sent: ${alertSummary.sent}, Deduplicated: ${alertSummary.deduplicated}, Failed webhooks: ${alertSummary.failedWebhooks.length}`,
+      );
+    }
+
+    await checkpointService.pruneFinishedRuns();
   } catch (error) {
     logger.error('Netlink scraper job failed:', error.message);
   } finally {
+    activeNetlinkRuns.delete(runId);
     await app.close();
   }
 }
 
+/**
+ * Resume nightly scraper runs interrupted by a restart/crash
+ */
+async function resumeInterruptedNetlinkRuns() {
+  const app = await NestFactory.createApplicationContext(AppModule);
+  const checkpointService = app.get(NetlinkRunCheckpointService);
+  const runs = (await checkpointService.findUnfinishedRuns()).filter((run) =>
+    run.runId.startsWith(NETLINK_RUN_PREFIX),
+  );
+  await app.close();
+
+  for (const run of runs) {
+    logger.log(
+      `Found interrupted run ${run.runId} (status: ${run.status}), resuming...`,
+    );
+    await runNetlinkScraperJob(run.runId);
+  }
+}
+
 /**
  * Run the DomDetailer cron job - processes ALL netlinks with pagination
  */
@@ -314,6 +438,13 @@ if (require.main === module) {
         console.log('Application ready. Initializing cron jobs...');
         initCronJobs();
         console.log('Cron jobs running. Press Ctrl+C to exit.');
+
+        resumeInterruptedNetlinkRuns().catch((error) => {
+          logger.error(
+            'Failed to resume interrupted netlink runs:',
+            error.message,
+          );
+        });
       })
       .catch((error) => {
         console.error('Application failed to start:', error);
@@ -6,11 +6,24 @@ import { DataTransformerService } from './services/data-transformer.service';
 import { PaperClubScraperService } from './services/paperclub-scraper.service';
 import { NetlinkService } from './services/netlink.service';
 import { NetlinkScraperService } from './services/netlink-scraper.service';
+import { NetlinkHistoryService } from './services/netlink-history.service';
+import { NetlinkAlertService } from './services/netlink-alert.service';
+import { NetlinkRunCheckpointService } from './services/netlink-run-checkpoint.service';
+import { NetlinkSnapshotService } from './services/netlink-snapshot.service';
+import { LandingPageHealthService } from './services/landing-page-health.service';
+import { AnchorProfileService } from './services/anchor-profile.service';
 import { BQSCalculatorService } from '../../scoring/bqs-calculator.service';
 import { DatabaseService } from '../../common/database.service';
 import { LightpandaService } from '../../common/lightpanda.service';
 import { DashboardHttpClient } from '../../common/dashboard-http-client.service';
 import { DomDetailerService } from '../../common/domdetailer.service';
+import { HttpPageService } from '../../common/http-page.service';
+import { IndexabilityService } from '../../common/indexability.service';
+import { UrlMatcherService } from '../../common/url-matcher.service';
+import { RedirectResolverService } from '../../common/redirect-resolver.service';
+import { OutboundLinkProfileService } from '../../common/outbound-link-profile.service';
+import { SponsoredDisclosureService } from '../../common/sponsored-disclosure.service';
+import { ArticleExtractorService } from '../../common/article-extractor.service';
 import { GoogleSearchConsoleService } from '../../common/google-search-console.service';
 
 /**
@@ -33,11 +46,24 @@ import { GoogleSearchConsoleService } from '../../common/google-search-console.s
     PaperClubScraperService,
     NetlinkService,
     NetlinkScraperService,
+    NetlinkHistoryService,
+    NetlinkAlertService,
+    NetlinkRunCheckpointService,
+    NetlinkSnapshotService,
+    LandingPageHealthService,
+    AnchorProfileService,
     BQSCalculatorService,
     DatabaseService,
     LightpandaService,
     DashboardHttpClient,
     DomDetailerService,
+    HttpPageService,
+    IndexabilityService,
+    UrlMatcherService,
+    RedirectResolverService,
+    OutboundLinkProfileService,
+    SponsoredDisclosureService,
+    ArticleExtractorService,
     GoogleSearchConsoleService,
   ],
   exports: [
@@ -46,10 +72,23 @@ import { GoogleSearchConsoleService } from '../../common/google-search-console.s
     DataTransformerService,
     NetlinkService,
     NetlinkScraperService,
+    NetlinkHistoryService,
+    NetlinkAlertService,
+    NetlinkRunCheckpointService,
+    NetlinkSnapshotService,
+    LandingPageHealthService,
+    AnchorProfileService,
     DatabaseService,
     LightpandaService,
     DashboardHttpClient,
     DomDetailerService,
+    HttpPageService,
+    IndexabilityService,
+    UrlMatcherService,
+    RedirectResolverService,
+    OutboundLinkProfileService,
+    SponsoredDisclosureService,
+    ArticleExtractorService,
     GoogleSearchConsoleService,
   ],
 })
@@ -0,0 +1,421 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { NetlinkItem } from './netlink.service';
+import { NetlinkHistoryService } from './netlink-history.service';
+import { UrlMatcherService } from '../../../common/url-matcher.service';
+import {
+  ANCHOR_TYPES,
+  AnchorTerms,
+  AnchorType,
+  DEFAULT_EXACT_MATCH_MAX_SHARE,
+  GENERIC_ANCHORS,
+  MIN_ANCHORS_FOR_WARNING,
+  getAnchorTerms,
+  normalizeAnchor,
+  parseAnchorTerms,
+} from '../../../config/anchor-text.config';
+
+/**
+ * Anchor of a verified netlink
+ */
+export interface AnchorEntry {
+  netlinkId: number;
+  contractId?: number | string;
+  url: string;
+  landingPage: string;
+  text: string;
+  imageAlt?: string; // Set for image links
+  checkedAt?: string;
+}
+
+export interface AnchorClassification {
+  type: AnchorType;
+  text: string; // Anchor text, or the alt text of an image link
+  normalized: string;
+}
+
+/**
+ * Anchor distribution of a landing page or a contract
+ */
+export interface AnchorProfile {
+  scope: 'landing_page' | 'contract';
+  key: string; // Landing page URL or contract ID
+  totalAnchors: number;
+  uniqueAnchors: number;
+  diversity: number; // uniqueAnchors / totalAnchors
+  distribution: Record<AnchorType, { count: number; share: number }>;
+  topAnchors: Array<{ text: string; type: AnchorType; count: number }>;
+  exactMatchShare: number;
+  overOptimized: boolean;
+  warnings: string[];
+}
+
+export interface AnchorProfileReport {
+  generatedAt: string;
+  totalNetlinks: number;
+  verifiedAnchors: number;
+  exactMatchMaxShare: number;
+  landingPages: AnchorProfile[];
+  contracts: AnchorProfile[];
+  warnings: string[];
+}
+
+/**
+ * Naked URL or domain name anchor (https://www.client.fr/page, client.fr)
+ */
+const NAKED_URL_PATTERN =
+  /^(https?:\/\/)?(www\.)?[a-z0-9-]+(\.[a-z0-9-]+)*\.[a-z]{2,}(\/\S*)?$/i;
+
+const TOP_ANCHORS_LIMIT = 10;
+
+/**
+ * Second-level labels of country domains (co.uk, com.au...)
+ */
+const SECOND_LEVEL_LABELS = ['co', 'com', 'org', 'net', 'gouv', 'ac'];
+
+/**
+ * Anchor Profile Service
+ *
+ * Builds anchor text profiles from verified netlinks to keep anchor diversity
+ * under control and spot over-optimized landing pages.
+ *
+ * Features:
+ * - Anchor classification: exact-match, partial, branded, naked URL, generic, image
+ * - Distribution, diversity and top anchors per landing page and per contract
+ * - Warnings when the exact-match share exceeds the configured maximum
+ *
+ * Keywords default to the landing page slug and brands to the client domain name,
+ * both can be set per contract.
+ *
+ * Environment Variables:
+ * - NETLINK_ANCHOR_TERMS: JSON object of per-contract keywords and brands (see anchor-text.config.ts)
+ * - NETLINK_ANCHOR_EXACT_MATCH_MAX_SHARE: Maximum exact-match share, 0-1 (default: 0.3)
+ * - ANCHOR_PROFILE_DIR: Report directory (default: data/anchor-profiles)
+ */
+@Injectable()
+export class AnchorProfileService {
+  private readonly logger = new Logger(AnchorProfileService.name);
+  private readonly contractTerms: Record<string, AnchorTerms>;
+  private readonly exactMatchMaxShare: number;
+  private readonly reportsDir: string;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly historyService: NetlinkHistoryService,
+    private readonly urlMatcher: UrlMatcherService,
+  ) {
+    const { terms, errors } = parseAnchorTerms(
+      this.configService.get<string>('NETLINK_ANCHOR_TERMS'),
+    );
+    errors.forEach((error) =>
+      this.logger.warn(`Ignoring anchor terms configuration: ${error}`),
+    );
+    this.contractTerms = terms;
+
+    const maxShare = Number(
+      this.configService.get<number>(
+        'NETLINK_ANCHOR_EXACT_MATCH_MAX_SHARE',
+        DEFAULT_EXACT_MATCH_MAX_SHARE,
+      ),
+    );
+    if (maxShare > 0 && maxShare <= 1) {
+      this.exactMatchMaxShare = maxShare;
+    } else {
+      this.logger.warn(
+        `Invalid NETLINK_ANCHOR_EXACT_MATCH_MAX_SHARE "${maxShare}", using ${DEFAULT_EXACT_MATCH_MAX_SHARE}`,
+      );
+      this.exactMatchMaxShare = DEFAULT_EXACT_MATCH_MAX_SHARE;
+    }
+
+    this.reportsDir = path.resolve(
+      this.configService.get<string>(
+        'ANCHOR_PROFILE_DIR',
+        path.join('data', 'anchor-profiles'),
+      ),
+    );
+  }
+
+  /**
+   * Anchors of the netlinks whose last recorded check found the link
+   */
+  async collectFromHistory(netlinks: NetlinkItem[]): Promise<AnchorEntry[]> {
+    const entries: AnchorEntry[] = [];
+
+    for (const netlink of netlinks) {
+      if (!netlink.id || !netlink.landing_page) continue;
+
+      const check = await this.historyService.getLastCheck(netlink.id);
+      if (check?.onlineStatus !== 1 || check.anchorText === undefined) {
+        continue;
+      }
+
+      entries.push({
+        netlinkId: netlink.id,
+        contractId: netlink.contract_id,
+        url: check.url,
+        landingPage: netlink.landing_page,
+        text: check.anchorText,
+        imageAlt: check.anchorImageAlt,
+        checkedAt: check.checkedAt,
+      });
+    }
+
+    return entries;
+  }
+
+  /**
+   * Classify an anchor against the keywords and brands of its landing page
+   */
+  classifyAnchor(
+    anchor: Pick<AnchorEntry, 'text' | 'imageAlt'>,
+    landingPage: string,
+    contractId?: number | string,
+  ): AnchorClassification {
+    if (anchor.imageAlt !== undefined) {
+      const alt = anchor.imageAlt.trim();
+      return { type: 'image', text: alt, normalized: normalizeAnchor(alt) };
+    }
+
+    const text = anchor.text.trim();
+
+    const normalized = normalizeAnchor(text);
+    const result = (type: AnchorType): AnchorClassification => ({
+      type,
+      text,
+      normalized,
+    });
+
+    if (!normalized) return result('other');
+    if (NAKED_URL_PATTERN.test(text)) return result('naked_url');
+    if (GENERIC_ANCHORS.includes(normalized)) return result('generic');
+
+    const { keywords, brands } = this.getTerms(landingPage, contractId);
+    const compact = normalized.replace(/ /g, '');
+    const isBranded = brands.some((brand) => {
+      const normalizedBrand = normalizeAnchor(brand);
+      const compactBrand = normalizedBrand.replace(/ /g, '');
+      return (
+        (normalizedBrand &&
+          ` ${normalized} `.includes(` ${normalizedBrand} `)) ||
+        (compactBrand.length >= 4 && compact.includes(compactBrand))
+      );
+    });
+    if (isBranded) return result('branded');
+
+    const anchorTerms = getAnchorTerms(text);
+    const keywordTerms = keywords
+      .map((keyword) => getAnchorTerms(keyword))
+      .filter((terms) => terms.length > 0);
+
+    if (
+      keywordTerms.some((terms) => terms.join(' ') === anchorTerms.join(' '))
+    ) {
+      return result('exact_match');
+    }
+    if (
+      keywordTerms.some((terms) =>
+        terms.some((term) => term.length >= 3 && anchorTerms.includes(term)),
+      )
+    ) {
+      return result('partial_match');
+    }
+
+    return result('other');
+  }
+
+  /**
+   * Build the anchor profiles of every landing page and contract
+   */
+  buildReport(
+    entries: AnchorEntry[],
+    totalNetlinks: number = entries.length,
+  ): AnchorProfileReport {
+    const byLandingPage = new Map<string, AnchorClassification[]>();
+    const byContract = new Map<string, AnchorClassification[]>();
+    const landingPageUrls = new Map<string, string>();
+
+    for (const entry of entries) {
+      const classification = this.classifyAnchor(
+        entry,
+        entry.landingPage,
+        entry.contractId,
+      );
+
+      // Landing pages are grouped on their canonical URL
+      const landingKey =
+        this.urlMatcher.canonicalize(entry.landingPage)?.key ||
+        entry.landingPage;
+      if (!landingPageUrls.has(landingKey)) {
+        landingPageUrls.set(landingKey, entry.landingPage);
+      }
+      byLandingPage.set(landingKey, [
+        ...(byLandingPage.get(landingKey) || []),
+        classification,
+      ]);
+
+      if (entry.contractId !== undefined && entry.contractId !== null) {
+        const contractKey = String(entry.contractId);
+        byContract.set(contractKey, [
+          ...(byContract.get(contractKey) || []),
+          classification,
+        ]);
+      }
+    }
+
+    const landingPages = Array.from(byLandingPage.entries()).map(
+      ([key, anchors]) =>
+        this.buildProfile('landing_page', landingPageUrls.get(key), anchors),
+    );
+    const contracts = Array.from(byContract.entries()).map(([key, anchors]) =>
+      this.buildProfile('contract', key, anchors),
+    );
+
+    const warnings = [...contracts, ...landingPages].flatMap((profile) =>
+      profile.warnings.map(
+        (warning) =>
+          `${profile.scope === 'contract' ? 'Contract' : 'Landing page'} ${profile.key}: ${warning}`,
+      ),
+    );
+    warnings.forEach((warning) => this.logger.warn(warning));
+
+    const byShare = (a: AnchorProfile, b: AnchorProfile) =>
+      b.exactMatchShare - a.exactMatchShare || b.totalAnchors - a.totalAnchors;
+
+    return {
+      generatedAt: new Date().toISOString(),
+      totalNetlinks,
+      verifiedAnchors: entries.length,
+      exactMatchMaxShare: this.exactMatchMaxShare,
+      landingPages: landingPages.sort(byShare),
+      contracts: contracts.sort(byShare),
+      warnings,
+    };
+  }
+
+  /**
+   * Save a report as JSON, returns the file path
+   */
+  async saveReport(report: AnchorProfileReport): Promise<string> {
+    await fs.mkdir(this.reportsDir, { recursive: true });
+    const filepath = path.join(
+      this.reportsDir,
+      `anchor-profile-${report.generatedAt.replace(/[:.]/g, '-')}.json`,
+    );
+    await fs.writeFile(filepath, JSON.stringify(report, null, 2));
+    return filepath;
+  }
+
+  private buildProfile(
+    scope: AnchorProfile['scope'],
+    key: string,
+    anchors: AnchorClassification[],
+  ): AnchorProfile {
+    const total = anchors.length;
+    const share = (count: number) =>
+      total > 0 ? Math.round((count / total) * 1000) / 1000 : 0;
+
+    const distribution = {} as AnchorProfile['distribution'];
+    ANCHOR_TYPES.forEach((type) => {
+      const count = anchors.filter((anchor) => anchor.type === type).length;
+      distribution[type] = { count, share: share(count) };
+    });
+
+    // Same anchor = same normalized text
+    const counts = new Map<
+      string,
+      { text: string; type: AnchorType; count: number }
+    >();
+    anchors.forEach((anchor) => {
+      const anchorKey = `${anchor.type}:${anchor.normalized}`;
+      const entry = counts.get(anchorKey) || {
+        text: anchor.text,
+        type: anchor.type,
+        count: 0,
+      };
+      entry.count++;
+      counts.set(anchorKey, entry);
+    });
+
+    const exactMatchShare = distribution.exact_match.share;
+    const overOptimized =
+      total >= MIN_ANCHORS_FOR_WARNING &&
+      exactMatchShare > this.exactMatchMaxShare;
+    const warnings = overOptimized
+      ? [
+          `${Math.round(exactMatchShare * 100)}% exact-match anchors (${distribution.exact_match.count}/${total}, max ${Math.round(this.exactMatchMaxShare * 100)}%)`,
+        ]
+      : [];
+
+    return {
+      scope,
+      key,
+      totalAnchors: total,
+      uniqueAnchors: counts.size,
+      diversity: share(counts.size),
+      distribution,
+      topAnchors: Array.from(counts.values())
+        .sort((a, b) => b.count - a.count)
+        .slice(0, TOP_ANCHORS_LIMIT),
+      exactMatchShare,
+      overOptimized,
+      warnings,
+    };
+  }
+
+  /**
+   * Keywords and brands of a landing page
+   * Keywords: the contract keywords, or the landing page slug ("chaussures-running-homme")
+   * Brands: the contract brands and the landing page domain name
+   */
+  private getTerms(
+    landingPage: string,
+    contractId?: number | string,
+  ): { keywords: string[]; brands: string[] } {
+    const configured =
+      contractId !== undefined && contractId !== null
+        ? this.contractTerms[String(contractId)]
+        : undefined;
+    const canonical = this.urlMatcher.canonicalize(landingPage);
+
+    const lastSegment = canonical?.path.split('/').filter(Boolean).pop();
+    const slug = lastSegment
+      ? this.decodeSegment(lastSegment)
+          .replace(/\.(html?|php|aspx?)$/i, '')
+          .split(/[-_+]+/)
+          .filter((term) => term && !/^\d+$/.test(term))
+          .join(' ')
+      : undefined;
+
+    // Registrable name: "decathlon" for www.decathlon.fr and shop.decathlon.co.uk
+    const labels = canonical?.hostname.split('.').slice(0, -1) || [];
+    if (
+      labels.length > 1 &&
+      SECOND_LEVEL_LABELS.includes(labels[labels.length - 1])
+    ) {
+      labels.pop();
+    }
+    const domainLabel = labels.pop();
+
+    return {
+      keywords: configured?.keywords?.length
+        ? configured.keywords
+        : slug
+          ? [slug]
+          : [],
+      brands: [
+        ...(configured?.brands || []),
+        ...(domainLabel ? [domainLabel] : []),
+      ],
+    };
+  }
+
+  private decodeSegment(segment: string): string {
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      return segment;
+    }
+  }
+}
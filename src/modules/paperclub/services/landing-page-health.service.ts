@@ -0,0 +1,389 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { NetlinkItem } from './netlink.service';
+import { HttpPageService } from '../../../common/http-page.service';
+import { IndexabilityService } from '../../../common/indexability.service';
+import { RedirectResolverService } from '../../../common/redirect-resolver.service';
+import { UrlMatcherService } from '../../../common/url-matcher.service';
+
+/**
+ * Problems found on a landing page
+ * - unreachable: network error, DNS failure or timeout
+ * - http_error: final response is 4xx/5xx
+ * - redirect_loop / too_many_redirects: the redirect chain never settles
+ * - redirected_to_homepage: a deep page now redirects to the site root (typical of deleted pages)
+ * - redirected_off_domain: the page redirects to another domain
+ * - redirected: the page redirects to another page of the same domain
+ * - noindex: the final page is noindex (meta robots or X-Robots-Tag)
+ * - canonical_elsewhere: the final page declares another canonical URL
+ */
+export type LandingPageIssue =
+  | 'unreachable'
+  | 'http_error'
+  | 'redirect_loop'
+  | 'too_many_redirects'
+  | 'redirected_to_homepage'
+  | 'redirected_off_domain'
+  | 'redirected'
+  | 'noindex'
+  | 'canonical_elsewhere';
+
+export type LandingPageHealthStatus = 'ok' | 'warning' | 'broken';
+
+/**
+ * Issues that make a backlink worthless
+ */
+const BROKEN_ISSUES: LandingPageIssue[] = [
+  'unreachable',
+  'http_error',
+  'redirect_loop',
+  'too_many_redirects',
+  'redirected_to_homepage',
+];
+
+const STATUS_RANK: Record<LandingPageHealthStatus, number> = {
+  ok: 0,
+  warning: 1,
+  broken: 2,
+};
+
+/**
+ * Health check of one landing page, shared by every netlink pointing to it
+ */
+export interface LandingPageCheck {
+  url: string;
+  checkedAt: string;
+  status: LandingPageHealthStatus;
+  issues: LandingPageIssue[];
+  statusCode?: number; // Status of the final URL
+  finalUrl: string;
+  redirectChain: string[]; // Landing page, intermediate redirects, final URL (empty without redirect)
+  canonicalUrl?: string;
+  noindex?: boolean;
+  error?: string;
+  netlinkIds: number[];
+  contractIds: Array<number | string>;
+}
+
+/**
+ * Landing page health of a contract
+ */
+export interface ContractLandingPageHealth {
+  contractId: number | string;
+  status: LandingPageHealthStatus; // Worst status of its landing pages
+  netlinks: number;
+  affectedNetlinks: number; // Netlinks pointing to a landing page with issues
+  targets: Array<{
+    url: string;
+    status: LandingPageHealthStatus;
+    issues: LandingPageIssue[];
+    finalUrl: string;
+  }>;
+}
+
+export interface LandingPageHealthReport {
+  checkedAt: string;
+  totalNetlinks: number;
+  totalTargets: number;
+  summary: Record<LandingPageHealthStatus, number>;
+  targets: LandingPageCheck[];
+  flaggedContracts: ContractLandingPageHealth[];
+}
+
+export interface LandingPageHealthOptions {
+  concurrency?: number;
+  timeout?: number;
+  onProgress?: (current: number, total: number, url: string) => void;
+}
+
+/**
+ * Landing Page Health Service
+ *
+ * Checks the client side of contracted netlinks: a paid link pointing to a
+ * page that 404s or redirects to the homepage is worthless.
+ *
+ * Features:
+ * - Deduplicates landing pages across netlinks (canonical URL)
+ * - Records status code, redirect chain, canonical and noindex state
+ * - Flags contracts whose backlinks point at broken or redirected targets
+ *
+ * Environment Variables:
+ * - LANDING_PAGE_HEALTH_DIR: Report directory (default: data/landing-page-health)
+ */
+@Injectable()
+export class LandingPageHealthService {
+  private readonly logger = new Logger(LandingPageHealthService.name);
+  private readonly reportsDir: string;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly httpPage: HttpPageService,
+    private readonly indexabilityService: IndexabilityService,
+    private readonly redirectResolver: RedirectResolverService,
+    private readonly urlMatcher: UrlMatcherService,
+  ) {
+    this.reportsDir = path.resolve(
+      this.configService.get<string>(
+        'LANDING_PAGE_HEALTH_DIR',
+        path.join('data', 'landing-page-health'),
+      ),
+    );
+  }
+
+  /**
+   * Check every landing page of the given netlinks and flag affected contracts
+   */
+  async checkNetlinks(
+    netlinks: NetlinkItem[],
+    options?: LandingPageHealthOptions,
+  ): Promise<LandingPageHealthReport> {
+    const { concurrency = 3, timeout = 15000, onProgress } = options || {};
+    const targets = this.collectTargets(netlinks);
+
+    this.logger.log(
+      `Checking ${targets.length} landing pages for ${netlinks.length} netlinks`,
+    );
+
+    const checks: LandingPageCheck[] = [];
+    let next = 0;
+
+    const worker = async () => {
+      while (next < targets.length) {
+        const target = targets[next++];
+        onProgress?.(next, targets.length, target.url);
+
+        const check = await this.checkLandingPage(target.url, timeout);
+        checks.push({
+          ...check,
+          netlinkIds: target.netlinkIds,
+          contractIds: target.contractIds,
+        });
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, targets.length) }, worker),
+    );
+
+    const summary: Record<LandingPageHealthStatus, number> = {
+      ok: 0,
+      warning: 0,
+      broken: 0,
+    };
+    checks.forEach((check) => summary[check.status]++);
+
+    return {
+      checkedAt: new Date().toISOString(),
+      totalNetlinks: netlinks.length,
+      totalTargets: targets.length,
+      summary,
+      targets: checks,
+      flaggedContracts: this.flagContracts(netlinks, checks),
+    };
+  }
+
+  /**
+   * Check a single landing page
+   */
+  async checkLandingPage(
+    url: string,
+    timeout: number = 15000,
+  ): Promise<Omit<LandingPageCheck, 'netlinkIds' | 'contractIds'>> {
+    const issues: LandingPageIssue[] = [];
+    const chain = await this.redirectResolver.resolve(url, {
+      followQueryParams: false,
+    });
+    const check: Omit<LandingPageCheck, 'netlinkIds' | 'contractIds'> = {
+      url,
+      checkedAt: new Date().toISOString(),
+      status: 'ok',
+      issues,
+      finalUrl: chain.finalUrl,
+      redirectChain: chain.redirected
+        ? [...chain.hops.map((hop) => hop.url), chain.finalUrl]
+        : [],
+    };
+
+    if (chain.error) {
+      issues.push(chain.loopDetected ? 'redirect_loop' : 'unreachable');
+      check.error = chain.error;
+    } else if (chain.hopLimitReached) {
+      issues.push('too_many_redirects');
+    } else {
+      if (chain.redirected) {
+        const redirectIssue = this.classifyRedirect(url, chain.finalUrl);
+        if (redirectIssue) issues.push(redirectIssue);
+      }
+
+      try {
+        const page = await this.httpPage.fetchPage(chain.finalUrl, {
+          timeout,
+        });
+        check.statusCode = page.statusCode;
+
+        if (page.statusCode >= 400) {
+          issues.push('http_error');
+        } else {
+          const audit = await this.indexabilityService.audit(
+            page.finalUrl,
+            page.html,
+            page.headers,
+          );
+          check.noindex = audit.noindex;
+          check.canonicalUrl = audit.canonicalUrl;
+          if (audit.noindex) issues.push('noindex');
+          if (audit.canonicalPointsElsewhere) {
+            issues.push('canonical_elsewhere');
+          }
+        }
+      } catch (error) {
+        issues.push('unreachable');
+        check.error = error.message;
+      }
+    }
+
+    check.status = issues.some((issue) => BROKEN_ISSUES.includes(issue))
+      ? 'broken'
+      : issues.length > 0
+        ? 'warning'
+        : 'ok';
+
+    if (check.status !== 'ok') {
+      this.logger.warn(`Landing page ${url}: ${issues.join(', ')}`);
+    }
+
+    return check;
+  }
+
+  /**
+   * Save a report as JSON, returns the file path
+   */
+  async saveReport(report: LandingPageHealthReport): Promise<string> {
+    await fs.mkdir(this.reportsDir, { recursive: true });
+    const filepath = path.join(
+      this.reportsDir,
+      `landing-pages-${report.checkedAt.replace(/[:.]/g, '-')}.json`,
+    );
+    await fs.writeFile(filepath, JSON.stringify(report, null, 2));
+    return filepath;
+  }
+
+  /**
+   * Unique landing pages (by canonical URL) with the netlinks and contracts pointing to them
+   */
+  private collectTargets(netlinks: NetlinkItem[]): Array<{
+    url: string;
+    netlinkIds: number[];
+    contractIds: Array<number | string>;
+  }> {
+    const targets = new Map<
+      string,
+      {
+        url: string;
+        netlinkIds: number[];
+        contractIds: Array<number | string>;
+      }
+    >();
+
+    for (const netlink of netlinks) {
+      const url = netlink.landing_page;
+      const canonical = url ? this.urlMatcher.canonicalize(url) : undefined;
+      if (!canonical) continue;
+
+      const target = targets.get(canonical.key) || {
+        url,
+        netlinkIds: [],
+        contractIds: [],
+      };
+      if (netlink.id) target.netlinkIds.push(netlink.id);
+      if (
+        netlink.contract_id &&
+        !target.contractIds.includes(netlink.contract_id)
+      ) {
+        target.contractIds.push(netlink.contract_id);
+      }
+      targets.set(canonical.key, target);
+    }
+
+    return Array.from(targets.values());
+  }
+
+  /**
+   * Issue raised by a landing page redirect (undefined for scheme/www/trailing slash only redirects)
+   */
+  private classifyRedirect(
+    url: string,
+    finalUrl: string,
+  ): LandingPageIssue | undefined {
+    const original = this.urlMatcher.canonicalize(url);
+    const final = this.urlMatcher.canonicalize(finalUrl);
+    if (!original || !final || original.key === final.key) {
+      return undefined;
+    }
+
+    const match = this.urlMatcher.match(finalUrl, url, 'domain');
+    if (!match.matchType) {
+      return 'redirected_off_domain';
+    }
+    if (final.path === '/' && original.path !== '/') {
+      return 'redirected_to_homepage';
+    }
+    return 'redirected';
+  }
+
+  /**
+   * Contracts with at least one netlink pointing to a landing page with issues
+   */
+  private flagContracts(
+    netlinks: NetlinkItem[],
+    checks: LandingPageCheck[],
+  ): ContractLandingPageHealth[] {
+    const contracts = new Map<string, ContractLandingPageHealth>();
+    const checksByNetlink = new Map<number, LandingPageCheck>();
+    checks.forEach((check) =>
+      check.netlinkIds.forEach((id) => checksByNetlink.set(id, check)),
+    );
+
+    for (const netlink of netlinks) {
+      if (!netlink.contract_id) continue;
+
+      const key = String(netlink.contract_id);
+      const contract = contracts.get(key) || {
+        contractId: netlink.contract_id,
+        status: 'ok' as LandingPageHealthStatus,
+        netlinks: 0,
+        affectedNetlinks: 0,
+        targets: [],
+      };
+      contract.netlinks++;
+
+      const check = checksByNetlink.get(netlink.id);
+      if (check && check.status !== 'ok') {
+        contract.affectedNetlinks++;
+        if (STATUS_RANK[check.status] > STATUS_RANK[contract.status]) {
+          contract.status = check.status;
+        }
+        if (!contract.targets.some((t) => t.url === check.url)) {
+          contract.targets.push({
+            url: check.url,
+            status: check.status,
+            issues: check.issues,
+            finalUrl: check.finalUrl,
+          });
+        }
+      }
+
+      contracts.set(key, contract);
+    }
+
+    return Array.from(contracts.values())
+      .filter((contract) => contract.status !== 'ok')
+      .sort(
+        (a, b) =>
+          STATUS_RANK[b.status] - STATUS_RANK[a.status] ||
+          b.affectedNetlinks - a.affectedNetlinks,
+      );
+  }
+}
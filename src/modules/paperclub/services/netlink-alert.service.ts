@@ -0,0 +1,385 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios, { AxiosInstance } from 'axios';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  AlertWebhookConfig,
+  NetlinkAlertEvent,
+  ALERT_EVENT_LABELS,
+  ALERT_DIGEST_MAX_ITEMS,
+  parseAlertWebhooks,
+} from '../../../config/netlink-alerts.config';
+import {
+  NetlinkChange,
+  NetlinkTransition,
+  NetlinkTransitionSeverity,
+} from './netlink-history.service';
+
+/**
+ * online_status labels used in alert messages
+ */
+const ONLINE_STATUS_LABELS: Record<number, string> = {
+  1: 'link found',
+  2: 'link missing',
+  3: 'site offline',
+  4: 'domain link only',
+  5: 'blocked',
+  6: 'link hidden',
+  7: 'link cloaked',
+  8: 'domain parked',
+};
+
+/**
+ * A single alert derived from a netlink status transition
+ */
+export interface NetlinkAlert {
+  event: NetlinkAlertEvent;
+  severity: NetlinkTransitionSeverity;
+  netlinkId: number;
+  contractId?: number | string;
+  url: string;
+  landingPage?: string;
+  checkedAt: string;
+  from: NetlinkTransition['from'];
+  to: NetlinkTransition['to'];
+  message: string;
+}
+
+/**
+ * Result of an alert dispatch
+ */
+export interface AlertDispatchSummary {
+  alerts: number;
+  sent: number; // Alerts delivered (counted once per webhook)
+  deduplicated: number;
+  failedWebhooks: string[];
+}
+
+/**
+ * Deduplication state: alert key -> first time it was sent
+ */
+interface AlertState {
+  [key: string]: {
+    event: NetlinkAlertEvent;
+    netlinkId: number;
+    sentAt: string;
+  };
+}
+
+/**
+ * Netlink Alert Service
+ *
+ * Posts lost/degraded backlink alerts to configurable webhooks.
+ *
+ * Features:
+ * - Generic JSON and Slack-compatible payloads
+ * - Per-contract and per-event routing
+ * - One digest message per webhook and run
+ * - Deduplication: an alert is sent once until the netlink recovers
+ *
+ * Environment Variables:
+ * - NETLINK_ALERT_WEBHOOKS: JSON array of webhooks (see netlink-alerts.config.ts)
+ * - NETLINK_ALERT_STATE_FILE: Deduplication state file (default: data/netlink-alert-state.json)
+ * - NETLINK_ALERT_DEDUP_DAYS: Days after which an unresolved alert is sent again (default: 30)
+ */
+@Injectable()
+export class NetlinkAlertService {
+  private readonly logger = new Logger(NetlinkAlertService.name);
+  private readonly axiosInstance: AxiosInstance;
+  private readonly webhooks: AlertWebhookConfig[];
+  private readonly stateFile: string;
+  private readonly dedupDays: number;
+
+  constructor(private readonly configService: ConfigService) {
+    const { webhooks, errors } = parseAlertWebhooks(
+      this.configService.get<string>('NETLINK_ALERT_WEBHOOKS'),
+    );
+    errors.forEach((error) =>
+      this.logger.warn(`Ignoring alert webhook configuration: ${error}`),
+    );
+
+    this.webhooks = webhooks;
+    this.stateFile = path.resolve(
+      this.configService.get<string>(
+        'NETLINK_ALERT_STATE_FILE',
+        path.join('data', 'netlink-alert-state.json'),
+      ),
+    );
+    this.dedupDays = Number(
+      this.configService.get<number>('NETLINK_ALERT_DEDUP_DAYS', 30),
+    );
+
+    this.axiosInstance = axios.create({
+      timeout: 10000,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  /**
+   * Whether at least one webhook is configured
+   */
+  isEnabled(): boolean {
+    return this.webhooks.length > 0;
+  }
+
+  /**
+   * Build alerts from the "changes since last check" list
+   */
+  buildAlerts(changes: NetlinkChange[]): NetlinkAlert[] {
+    const alerts: NetlinkAlert[] = [];
+
+    for (const change of changes) {
+      for (const transition of change.transitions) {
+        const event = this.getAlertEvent(transition);
+        if (!event) continue;
+
+        alerts.push({
+          event,
+          severity: transition.severity,
+          netlinkId: change.netlinkId,
+          contractId: change.contractId,
+          url: change.url,
+          landingPage: change.landingPage,
+          checkedAt: change.checkedAt,
+          from: this.describeValue(transition, transition.from),
+          to: this.describeValue(transition, transition.to),
+          message: `${ALERT_EVENT_LABELS[event]}: ${change.url} (${this.describeValue(transition, transition.from)} -> ${this.describeValue(transition, transition.to)})`,
+        });
+      }
+    }
+
+    // A page error and a link loss on the same check are both reported, but only once each
+    return alerts.filter(
+      (alert, index) =>
+        alerts.findIndex(
+          (other) =>
+            other.netlinkId === alert.netlinkId && other.event === alert.event,
+        ) === index,
+    );
+  }
+
+  /**
+   * Route, deduplicate and post alerts for the detected changes
+   */
+  async dispatch(changes: NetlinkChange[]): Promise<AlertDispatchSummary> {
+    const alerts = this.buildAlerts(changes);
+    const summary: AlertDispatchSummary = {
+      alerts: alerts.length,
+      sent: 0,
+      deduplicated: 0,
+      failedWebhooks: [],
+    };
+
+    if (!this.isEnabled()) {
+      if (alerts.length > 0) {
+        this.logger.debug(
+          `${alerts.length} alerts not sent: no webhook configured`,
+        );
+      }
+      return summary;
+    }
+
+    const state = await this.readState();
+    this.resolveRecovered(state, changes);
+    this.pruneExpired(state);
+
+    for (const webhook of this.webhooks) {
+      const routed = alerts.filter((alert) => this.routes(webhook, alert));
+      const pending = routed.filter(
+        (alert) => !state[this.getAlertKey(webhook, alert)],
+      );
+      summary.deduplicated += routed.length - pending.length;
+
+      if (pending.length === 0) continue;
+
+      try {
+        for (let i = 0; i < pending.length; i += ALERT_DIGEST_MAX_ITEMS) {
+          const digest = pending.slice(i, i + ALERT_DIGEST_MAX_ITEMS);
+          await this.axiosInstance.post(
+            webhook.url,
+            this.buildPayload(webhook, digest),
+          );
+        }
+
+        const sentAt = new Date().toISOString();
+        pending.forEach((alert) => {
+          state[this.getAlertKey(webhook, alert)] = {
+            event: alert.event,
+            netlinkId: alert.netlinkId,
+            sentAt,
+          };
+        });
+        summary.sent += pending.length;
+
+        this.logger.log(
+          `✓ Sent ${pending.length} alerts to webhook "${webhook.name}"`,
+        );
+      } catch (error) {
+        // Not marked as sent, so the alerts are retried on the next run
+        summary.failedWebhooks.push(webhook.name);
+        this.logger.error(
+          `Failed to send alerts to webhook "${webhook.name}": ${error.message}`,
+        );
+      }
+    }
+
+    await this.writeState(state);
+
+    return summary;
+  }
+
+  /**
+   * Map a status transition to an alert event
+   */
+  private getAlertEvent(
+    transition: NetlinkTransition,
+  ): NetlinkAlertEvent | undefined {
+    switch (transition.type) {
+      case 'link_lost':
+        return 'link_lost';
+      case 'link_type_changed':
+        return transition.from === 'dofollow' ? 'link_nofollow' : undefined;
+      case 'became_unreachable':
+        return 'page_error';
+      case 'status_code_changed':
+        return Number(transition.to) >= 400 && Number(transition.from) < 400
+          ? 'page_error'
+          : undefined;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Readable value of a transition (online_status codes become labels)
+   */
+  private describeValue(
+    transition: NetlinkTransition,
+    value: NetlinkTransition['from'],
+  ): NetlinkTransition['from'] {
+    const isOnlineStatus = [
+      'link_lost',
+      'link_restored',
+      'became_unreachable',
+      'became_reachable',
+    ].includes(transition.type);
+
+    return isOnlineStatus && typeof value === 'number'
+      ? ONLINE_STATUS_LABELS[value] || value
+      : value;
+  }
+
+  /**
+   * Clear the deduplication state of netlinks that recovered,
+   * so a new loss is alerted again
+   */
+  private resolveRecovered(state: AlertState, changes: NetlinkChange[]): void {
+    for (const change of changes) {
+      const resolved = new Set<NetlinkAlertEvent>();
+
+      change.transitions.forEach((transition) => {
+        if (transition.type === 'link_restored') resolved.add('link_lost');
+        if (
+          transition.type === 'link_type_changed' &&
+          transition.to === 'dofollow'
+        ) {
+          resolved.add('link_nofollow');
+        }
+        if (
+          transition.type === 'became_reachable' ||
+          (transition.type === 'status_code_changed' &&
+            Number(transition.to) < 400)
+        ) {
+          resolved.add('page_error');
+        }
+      });
+
+      Object.keys(state)
+        .filter(
+          (key) =>
+            state[key].netlinkId === change.netlinkId &&
+            resolved.has(state[key].event),
+        )
+        .forEach((key) => delete state[key]);
+    }
+  }
+
+  /**
+   * Drop deduplication entries older than the dedup window
+   */
+  private pruneExpired(state: AlertState): void {
+    const cutoff = Date.now() - this.dedupDays * 24 * 60 * 60 * 1000;
+    Object.keys(state)
+      .filter((key) => new Date(state[key].sentAt).getTime() < cutoff)
+      .forEach((key) => delete state[key]);
+  }
+
+  /**
+   * Check whether a webhook should receive an alert
+   */
+  private routes(webhook: AlertWebhookConfig, alert: NetlinkAlert): boolean {
+    if (webhook.events?.length && !webhook.events.includes(alert.event)) {
+      return false;
+    }
+    if (webhook.contractIds?.length) {
+      return webhook.contractIds.some(
+        (id) => String(id) === String(alert.contractId),
+      );
+    }
+    return true;
+  }
+
+  private getAlertKey(
+    webhook: AlertWebhookConfig,
+    alert: NetlinkAlert,
+  ): string {
+    return `${webhook.name}|${alert.netlinkId}|${alert.event}`;
+  }
+
+  /**
+   * Build the digest payload in the webhook format
+   */
+  private buildPayload(
+    webhook: AlertWebhookConfig,
+    alerts: NetlinkAlert[],
+  ): Record<string, any> {
+    if (webhook.format === 'slack') {
+      const lines = alerts.map((alert) => {
+        const icon =
+          alert.severity === 'critical' ? ':red_circle:' : ':warning:';
+        const contract = alert.contractId
+          ? ` (contract ${alert.contractId})`
+          : '';
+        return `${icon} *${ALERT_EVENT_LABELS[alert.event]}*${contract}: <${alert.url}|${alert.url}> — ${alert.from} → ${alert.to}`;
+      });
+
+      return {
+        text: `*Netlink alerts* — ${alerts.length} backlink${alerts.length > 1 ? 's' : ''} need${alerts.length > 1 ? '' : 's'} attention\n${lines.join('\n')}`,
+      };
+    }
+
+    return {
+      type: 'netlink_alert_digest',
+      generatedAt: new Date().toISOString(),
+      count: alerts.length,
+      alerts,
+    };
+  }
+
+  private async readState(): Promise<AlertState> {
+    try {
+      return JSON.parse(await fs.readFile(this.stateFile, 'utf-8'));
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        this.logger.warn(`Failed to read alert state: ${error.message}`);
+      }
+      return {};
+    }
+  }
+
+  private async writeState(state: AlertState): Promise<void> {
+    await fs.mkdir(path.dirname(this.stateFile), { recursive: true });
+    await fs.writeFile(this.stateFile, JSON.stringify(state, null, 2));
+  }
+}
@@ -0,0 +1,401 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+/**
+ * Compact record of a single netlink check
+ */
+export interface NetlinkCheckRecord {
+  netlinkId: number;
+  contractId?: number | string;
+  url: string;
+  landingPage?: string;
+  checkedAt: string;
+  onlineStatus: number; // Same values as the upsert online_status
+  statusCode?: number;
+  linkType: string;
+  matchType?: string;
+  href?: string;
+  linkCount?: number; // Anchors pointing to the landing page
+  anchorText?: string; // Text of the matched anchor
+  anchorImageAlt?: string; // Alt text when the matched anchor is an image link
+  articleWordCount?: number;
+  articleTextHash?: string; // sha256 of the article body text
+  articleModifiedAt?: string; // Modification date declared by the page
+  indexable?: boolean;
+  errorCategory?: string;
+  screenshotFile?: string; // Anchor screenshot in the netlink snapshot archive
+}
+
+export type NetlinkTransitionType =
+  | 'link_lost'
+  | 'link_restored'
+  | 'link_type_changed'
+  | 'match_downgraded'
+  | 'match_upgraded'
+  | 'status_code_changed'
+  | 'became_unreachable'
+  | 'became_reachable'
+  | 'indexability_changed'
+  | 'article_edited';
+
+export type NetlinkTransitionSeverity = 'critical' | 'warning' | 'info';
+
+/**
+ * A status change between two checks of the same netlink
+ */
+export interface NetlinkTransition {
+  type: NetlinkTransitionType;
+  severity: NetlinkTransitionSeverity;
+  from: string | number | boolean | null;
+  to: string | number | boolean | null;
+  previousCheckedAt: string;
+}
+
+/**
+ * Changes detected for a netlink since its last check
+ */
+export interface NetlinkChange {
+  netlinkId: number;
+  contractId?: number | string;
+  url: string;
+  landingPage?: string;
+  checkedAt: string;
+  transitions: NetlinkTransition[];
+}
+
+/**
+ * On-disk history file of a netlink
+ */
+interface NetlinkHistoryFile {
+  netlinkId: number;
+  checks: NetlinkCheckRecord[];
+}
+
+/**
+ * online_status values where the page was checked and the link state is known
+ * Hidden (6) and cloaked (7) links are checked but count as not present: they pass no value
+ * A parked/expired domain (8) is conclusive too: the publisher site is gone
+ */
+const CONCLUSIVE_STATUSES = [1, 2, 4, 6, 7, 8];
+const LINK_PRESENT_STATUSES = [1, 4];
+const UNREACHABLE_STATUS = 3;
+
+/**
+ * Netlink History Service
+ *
+ * Local check-history store keyed by netlinkId.
+ * Records every check result and computes transitions against the previous checks:
+ * - live -> missing (and back)
+ * - dofollow -> nofollow (any link type change)
+ * - HTTP status changes (200 -> 404)
+ * - exact -> domain-only match
+ * - reachability and indexability changes
+ *
+ * Environment Variables:
+ * - NETLINK_HISTORY_DIR: Storage directory (default: data/netlink-history)
+ * - NETLINK_HISTORY_MAX_CHECKS: Checks kept per netlink (default: 100)
+ */
+@Injectable()
+export class NetlinkHistoryService {
+  private readonly logger = new Logger(NetlinkHistoryService.name);
+  private readonly historyDir: string;
+  private readonly maxChecks: number;
+
+  constructor(private readonly configService: ConfigService) {
+    this.historyDir = path.resolve(
+      this.configService.get<string>(
+        'NETLINK_HISTORY_DIR',
+        path.join('data', 'netlink-history'),
+      ),
+    );
+    this.maxChecks = Number(
+      this.configService.get<number>('NETLINK_HISTORY_MAX_CHECKS', 100),
+    );
+  }
+
+  /**
+   * Record a check and return the transitions since the previous checks
+   */
+  async record(check: NetlinkCheckRecord): Promise<NetlinkTransition[]> {
+    const history = await this.readHistory(check.netlinkId);
+    const transitions = this.computeTransitions(history.checks, check);
+
+    history.checks.push(check);
+    if (history.checks.length > this.maxChecks) {
+      history.checks = history.checks.slice(-this.maxChecks);
+    }
+
+    await this.writeHistory(history);
+
+    if (transitions.length > 0) {
+      this.logger.log(
+        `Netlink ${check.netlinkId}: ${transitions.map((t) => `${t.type} (${t.from} -> ${t.to})`).join(', ')}`,
+      );
+    }
+
+    return transitions;
+  }
+
+  /**
+   * Get all recorded checks of a netlink (oldest first)
+   */
+  async getHistory(netlinkId: number): Promise<NetlinkCheckRecord[]> {
+    return (await this.readHistory(netlinkId)).checks;
+  }
+
+  /**
+   * Get the most recent recorded check of a netlink
+   */
+  async getLastCheck(
+    netlinkId: number,
+  ): Promise<NetlinkCheckRecord | undefined> {
+    const checks = await this.getHistory(netlinkId);
+    return checks[checks.length - 1];
+  }
+
+  /**
+   * Compute transitions between the previous checks and a new check
+   *
+   * Reachability is compared with the immediately previous check.
+   * Link state is compared with the last conclusive check, so a night where the
+   * site was down or blocked does not hide a lost link.
+   */
+  computeTransitions(
+    previousChecks: NetlinkCheckRecord[],
+    current: NetlinkCheckRecord,
+  ): NetlinkTransition[] {
+    const transitions: NetlinkTransition[] = [];
+    const previous = previousChecks[previousChecks.length - 1];
+    if (!previous) return transitions;
+
+    const add = (
+      type: NetlinkTransitionType,
+      severity: NetlinkTransitionSeverity,
+      from: NetlinkTransition['from'],
+      to: NetlinkTransition['to'],
+      reference: NetlinkCheckRecord,
+    ) =>
+      transitions.push({
+        type,
+        severity,
+        from,
+        to,
+        previousCheckedAt: reference.checkedAt,
+      });
+
+    // Reachability
+    if (
+      previous.onlineStatus !== UNREACHABLE_STATUS &&
+      current.onlineStatus === UNREACHABLE_STATUS
+    ) {
+      add(
+        'became_unreachable',
+        'critical',
+        previous.onlineStatus,
+        current.onlineStatus,
+        previous,
+      );
+    } else if (
+      previous.onlineStatus === UNREACHABLE_STATUS &&
+      CONCLUSIVE_STATUSES.includes(current.onlineStatus)
+    ) {
+      add(
+        'became_reachable',
+        'info',
+        previous.onlineStatus,
+        current.onlineStatus,
+        previous,
+      );
+    }
+
+    // HTTP status code
+    if (
+      previous.statusCode !== undefined &&
+      current.statusCode !== undefined &&
+      previous.statusCode !== current.statusCode
+    ) {
+      add(
+        'status_code_changed',
+        current.statusCode >= 400 ? 'critical' : 'warning',
+        previous.statusCode,
+        current.statusCode,
+        previous,
+      );
+    }
+
+    if (!CONCLUSIVE_STATUSES.includes(current.onlineStatus)) {
+      return transitions;
+    }
+
+    const lastConclusive = [...previousChecks]
+      .reverse()
+      .find((check) => CONCLUSIVE_STATUSES.includes(check.onlineStatus));
+    if (!lastConclusive) return transitions;
+
+    const wasPresent = LINK_PRESENT_STATUSES.includes(
+      lastConclusive.onlineStatus,
+    );
+    const isPresent = LINK_PRESENT_STATUSES.includes(current.onlineStatus);
+
+    // Link presence
+    if (wasPresent && !isPresent) {
+      add(
+        'link_lost',
+        'critical',
+        lastConclusive.onlineStatus,
+        current.onlineStatus,
+        lastConclusive,
+      );
+    } else if (!wasPresent && isPresent) {
+      add(
+        'link_restored',
+        'info',
+        lastConclusive.onlineStatus,
+        current.onlineStatus,
+        lastConclusive,
+      );
+    }
+
+    if (wasPresent && isPresent) {
+      // Match quality (exact -> domain-only)
+      const previousRank = this.getMatchRank(lastConclusive);
+      const currentRank = this.getMatchRank(current);
+      if (currentRank < previousRank) {
+        add(
+          'match_downgraded',
+          'warning',
+          this.describeMatch(lastConclusive),
+          this.describeMatch(current),
+          lastConclusive,
+        );
+      } else if (currentRank > previousRank) {
+        add(
+          'match_upgraded',
+          'info',
+          this.describeMatch(lastConclusive),
+          this.describeMatch(current),
+          lastConclusive,
+        );
+      }
+
+      // Link type (dofollow -> nofollow)
+      if (
+        lastConclusive.linkType !== current.linkType &&
+        lastConclusive.linkType !== 'unknown' &&
+        current.linkType !== 'unknown'
+      ) {
+        add(
+          'link_type_changed',
+          lastConclusive.linkType === 'dofollow' ? 'critical' : 'warning',
+          lastConclusive.linkType,
+          current.linkType,
+          lastConclusive,
+        );
+      }
+    }
+
+    // Indexability
+    if (
+      lastConclusive.indexable !== undefined &&
+      current.indexable !== undefined &&
+      lastConclusive.indexable !== current.indexable
+    ) {
+      add(
+        'indexability_changed',
+        current.indexable ? 'info' : 'warning',
+        lastConclusive.indexable,
+        current.indexable,
+        lastConclusive,
+      );
+    }
+
+    // Article body (from/to: word counts)
+    // A different hash alone can come from markup noise, the word count or declared modification date must change too
+    if (
+      lastConclusive.articleTextHash !== undefined &&
+      current.articleTextHash !== undefined &&
+      lastConclusive.articleTextHash !== current.articleTextHash &&
+      (lastConclusive.articleWordCount !== current.articleWordCount ||
+        lastConclusive.articleModifiedAt !== current.articleModifiedAt)
+    ) {
+      add(
+        'article_edited',
+        'warning',
+        lastConclusive.articleWordCount ?? null,
+        current.articleWordCount ?? null,
+        lastConclusive,
+      );
+    }
+
+    return transitions;
+  }
+
+  /**
+   * Save a "changes since last check" report and return its path
+   */
+  async saveChangeReport(changes: NetlinkChange[]): Promise<string> {
+    const reportsDir = path.join(this.historyDir, 'changes');
+    await fs.mkdir(reportsDir, { recursive: true });
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const filepath = path.join(reportsDir, `changes-${timestamp}.json`);
+    await fs.writeFile(filepath, JSON.stringify(changes, null, 2));
+
+    return filepath;
+  }
+
+  /**
+   * Rank the match quality of a check (higher is better)
+   */
+  private getMatchRank(check: NetlinkCheckRecord): number {
+    if (check.onlineStatus === 4) return 1; // Domain only
+    if (check.onlineStatus !== 1) return 0;
+    return check.matchType === 'exact' ? 3 : 2;
+  }
+
+  /**
+   * Human readable match description for transitions
+   */
+  private describeMatch(check: NetlinkCheckRecord): string {
+    if (check.onlineStatus === 4) return 'domain-only';
+    return check.matchType || 'matched';
+  }
+
+  /**
+   * Read the history file of a netlink (empty history if none)
+   */
+  private async readHistory(netlinkId: number): Promise<NetlinkHistoryFile> {
+    try {
+      const content = await fs.readFile(
+        this.getHistoryPath(netlinkId),
+        'utf-8',
+      );
+      return JSON.parse(content);
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        this.logger.warn(
+          `Failed to read history for netlink ${netlinkId}: ${error.message}`,
+        );
+      }
+      return { netlinkId, checks: [] };
+    }
+  }
+
+  /**
+   * Write the history file of a netlink (atomic rename)
+   */
+  private async writeHistory(history: NetlinkHistoryFile): Promise<void> {
+    await fs.mkdir(this.historyDir, { recursive: true });
+
+    const filepath = this.getHistoryPath(history.netlinkId);
+    const tempPath = `${filepath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(history, null, 2));
+    await fs.rename(tempPath, filepath);
+  }
+
+  private getHistoryPath(netlinkId: number): string {
+    return path.join(this.historyDir, `${netlinkId}.json`);
+  }
+}
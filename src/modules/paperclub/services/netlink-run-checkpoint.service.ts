@@ -0,0 +1,314 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { NetlinkItem } from './netlink.service';
+import type { ScrapedNetlinkData } from './netlink-scraper.service';
+
+export type NetlinkRunStatus = 'running' | 'scraped' | 'posted';
+
+/**
+ * Run manifest saved when a run starts
+ */
+export interface NetlinkRunManifest {
+  runId: string;
+  status: NetlinkRunStatus;
+  createdAt: string;
+  updatedAt: string;
+  total: number;
+  netlinks: NetlinkItem[]; // Full work queue, so a resumed run does not refetch it
+}
+
+/**
+ * Checkpointed state of a run
+ */
+export interface NetlinkRunState {
+  manifest: NetlinkRunManifest;
+  results: ScrapedNetlinkData[]; // Completed items
+  postedKeys: Set<string>; // Items already posted to the upsert endpoint
+  resumed: boolean;
+}
+
+/**
+ * Netlink Run Checkpoint Service
+ *
+ * Makes netlink scraping runs crash-safe:
+ * - <runId>.json: run manifest (work queue and status)
+ * - <runId>.results.jsonl: one line per completed item, appended as soon as it finishes
+ * - <runId>.posted.jsonl: keys of items already posted to the dashboard
+ *
+ * A restarted process starting the same run ID skips finished items
+ * and only posts the results that were not posted yet.
+ *
+ * Environment Variables:
+ * - NETLINK_RUNS_DIR: Checkpoint directory (default: data/netlink-runs)
+ * - NETLINK_RUNS_RETENTION_DAYS: Days finished runs are kept (default: 7)
+ */
+@Injectable()
+export class NetlinkRunCheckpointService {
+  private readonly logger = new Logger(NetlinkRunCheckpointService.name);
+  private readonly runsDir: string;
+  private readonly retentionDays: number;
+
+  constructor(private readonly configService: ConfigService) {
+    this.runsDir = path.resolve(
+      this.configService.get<string>(
+        'NETLINK_RUNS_DIR',
+        path.join('data', 'netlink-runs'),
+      ),
+    );
+    this.retentionDays = Number(
+      this.configService.get<number>('NETLINK_RUNS_RETENTION_DAYS', 7),
+    );
+  }
+
+  /**
+   * Key identifying a netlink or its result within a run
+   */
+  getItemKey(item: NetlinkItem | ScrapedNetlinkData): string {
+    const id = item.netlinkId ?? item.id;
+    if (id !== undefined && id !== null) return `id:${id}`;
+    return `url:${item.url_bought || item.url}`;
+  }
+
+  /**
+   * Start a run, or resume it when a checkpoint with the same ID exists
+   */
+  async startRun(
+    runId: string,
+    netlinks: NetlinkItem[],
+  ): Promise<NetlinkRunState> {
+    if (!/^[\w-]+$/.test(runId)) {
+      throw new Error(
+        `Invalid run ID "${runId}" (letters, digits, - and _ only)`,
+      );
+    }
+
+    const existing = await this.loadRun(runId);
+    if (existing) {
+      existing.resumed = true;
+      this.logger.log(
+        `Resuming run ${runId}: ${existing.results.length}/${existing.manifest.total} items already scraped, ${existing.postedKeys.size} posted`,
+      );
+
+      // Rewrite the checkpoints so new lines are not appended to a truncated one
+      await fs.writeFile(
+        this.getPath(runId, '.results.jsonl'),
+        existing.results
+          .map((result) => `${JSON.stringify(result)}\n`)
+          .join(''),
+      );
+      await fs.writeFile(
+        this.getPath(runId, '.posted.jsonl'),
+        Array.from(existing.postedKeys)
+          .map((key) => `${JSON.stringify(key)}\n`)
+          .join(''),
+      );
+
+      if (existing.manifest.status !== 'running') {
+        await this.updateStatus(runId, 'running');
+      }
+      return existing;
+    }
+
+    const now = new Date().toISOString();
+    const manifest: NetlinkRunManifest = {
+      runId,
+      status: 'running',
+      createdAt: now,
+      updatedAt: now,
+      total: netlinks.length,
+      netlinks,
+    };
+
+    await fs.mkdir(this.runsDir, { recursive: true });
+    await this.writeManifest(manifest);
+    this.logger.log(`Started run ${runId} with ${netlinks.length} items`);
+
+    return { manifest, results: [], postedKeys: new Set(), resumed: false };
+  }
+
+  /**
+   * Load the checkpointed state of a run (undefined if it does not exist)
+   */
+  async loadRun(runId: string): Promise<NetlinkRunState | undefined> {
+    let manifest: NetlinkRunManifest;
+    try {
+      manifest = JSON.parse(
+        await fs.readFile(this.getPath(runId, '.json'), 'utf-8'),
+      );
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        this.logger.warn(`Failed to read run ${runId}: ${error.message}`);
+      }
+      return undefined;
+    }
+
+    // Keep the latest result per item (an item may be appended twice around a crash)
+    const resultsByKey = new Map<string, ScrapedNetlinkData>();
+    (await this.readLines<ScrapedNetlinkData>(runId, '.results.jsonl')).forEach(
+      (result) => resultsByKey.set(this.getItemKey(result), result),
+    );
+
+    return {
+      manifest,
+      results: Array.from(resultsByKey.values()),
+      postedKeys: new Set(await this.readLines<string>(runId, '.posted.jsonl')),
+      resumed: false,
+    };
+  }
+
+  /**
+   * Checkpoint a completed item
+   */
+  async recordResult(runId: string, result: ScrapedNetlinkData): Promise<void> {
+    await fs.appendFile(
+      this.getPath(runId, '.results.jsonl'),
+      `${JSON.stringify(result)}\n`,
+    );
+  }
+
+  /**
+   * Filter out results already posted in this run
+   */
+  async getUnpostedResults(
+    runId: string,
+    results: ScrapedNetlinkData[],
+  ): Promise<ScrapedNetlinkData[]> {
+    const postedKeys = new Set(
+      await this.readLines<string>(runId, '.posted.jsonl'),
+    );
+    return results.filter((result) => !postedKeys.has(this.getItemKey(result)));
+  }
+
+  /**
+   * Record results as posted, and mark the run posted once every item is
+   */
+  async markPosted(
+    runId: string,
+    results: ScrapedNetlinkData[],
+  ): Promise<void> {
+    if (results.length > 0) {
+      await fs.appendFile(
+        this.getPath(runId, '.posted.jsonl'),
+        results.map((r) => `${JSON.stringify(this.getItemKey(r))}\n`).join(''),
+      );
+    }
+
+    const state = await this.loadRun(runId);
+    if (
+      state &&
+      state.manifest.status === 'scraped' &&
+      state.results.every((r) => state.postedKeys.has(this.getItemKey(r)))
+    ) {
+      await this.updateStatus(runId, 'posted');
+    }
+  }
+
+  /**
+   * Update the status of a run
+   */
+  async updateStatus(runId: string, status: NetlinkRunStatus): Promise<void> {
+    const state = await this.loadRun(runId);
+    if (!state) return;
+
+    state.manifest.status = status;
+    state.manifest.updatedAt = new Date().toISOString();
+    await this.writeManifest(state.manifest);
+  }
+
+  /**
+   * List runs that were interrupted before all their results were posted
+   */
+  async findUnfinishedRuns(): Promise<NetlinkRunManifest[]> {
+    const manifests = await this.listManifests();
+    return manifests
+      .filter((manifest) => manifest.status !== 'posted')
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Delete finished runs older than the retention period
+   */
+  async pruneFinishedRuns(): Promise<number> {
+    const cutoff = Date.now() - this.retentionDays * 24 * 60 * 60 * 1000;
+    const expired = (await this.listManifests()).filter(
+      (manifest) =>
+        manifest.status === 'posted' &&
+        new Date(manifest.updatedAt).getTime() < cutoff,
+    );
+
+    for (const manifest of expired) {
+      await Promise.all(
+        ['.json', '.results.jsonl', '.posted.jsonl'].map((suffix) =>
+          fs.rm(this.getPath(manifest.runId, suffix), { force: true }),
+        ),
+      );
+    }
+
+    return expired.length;
+  }
+
+  private async listManifests(): Promise<NetlinkRunManifest[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.runsDir);
+    } catch {
+      return [];
+    }
+
+    const manifests: NetlinkRunManifest[] = [];
+    for (const file of files.filter((f) => /^[^.]+\.json$/.test(f))) {
+      try {
+        manifests.push(
+          JSON.parse(await fs.readFile(path.join(this.runsDir, file), 'utf-8')),
+        );
+      } catch (error) {
+        this.logger.warn(
+          `Skipping unreadable run file ${file}: ${error.message}`,
+        );
+      }
+    }
+
+    return manifests;
+  }
+
+  /**
+   * Read a JSONL checkpoint file, ignoring a truncated last line
+   */
+  private async readLines<T>(runId: string, suffix: string): Promise<T[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.getPath(runId, suffix), 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const items: T[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        items.push(JSON.parse(line));
+      } catch {
+        this.logger.warn(
+          `Ignoring truncated checkpoint line in ${runId}${suffix}`,
+        );
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Write the manifest atomically (temp file + rename)
+   */
+  private async writeManifest(manifest: NetlinkRunManifest): Promise<void> {
+    const filepath = this.getPath(manifest.runId, '.json');
+    await fs.writeFile(`${filepath}.tmp`, JSON.stringify(manifest));
+    await fs.rename(`${filepath}.tmp`, filepath);
+  }
+
+  private getPath(runId: string, suffix: string): string {
+    return path.join(this.runsDir, `${runId}${suffix}`);
+  }
+}
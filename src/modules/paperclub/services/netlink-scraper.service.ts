@@ -2,22 +2,183 @@ import { Injectable, Logger } from '@nestjs/common';
 import { LightpandaService } from '../../../common/lightpanda.service';
 import { NetlinkService, NetlinkItem } from './netlink.service';
 import { DashboardHttpClient } from '../../../common/dashboard-http-client.service';
+import {
+  HttpPageService,
+  HttpPageResult,
+  ExtractedLink,
+  LinkImage,
+  LinkSource,
+  LAZY_IMAGE_SRC_ATTRIBUTES,
+} from '../../../common/http-page.service';
+import {
+  IndexabilityService,
+  IndexabilityAudit,
+} from '../../../common/indexability.service';
+import {
+  UrlMatcherService,
+  UrlMatchResult,
+} from '../../../common/url-matcher.service';
+import {
+  RedirectResolverService,
+  RedirectChain,
+} from '../../../common/redirect-resolver.service';
+import {
+  OutboundLinkProfileService,
+  OutboundLinkProfile,
+} from '../../../common/outbound-link-profile.service';
+import { SponsoredDisclosureService } from '../../../common/sponsored-disclosure.service';
+import {
+  ArticleExtractorService,
+  ArticleInfo,
+} from '../../../common/article-extractor.service';
+import { SponsoredDisclosure } from '../../../config/sponsored-disclosure.config';
+import {
+  NetlinkHistoryService,
+  NetlinkTransition,
+  NetlinkChange,
+} from './netlink-history.service';
+import { NetlinkRunCheckpointService } from './netlink-run-checkpoint.service';
+import { NetlinkSnapshotService } from './netlink-snapshot.service';
+import {
+  LinkPlacement,
+  matchPlacementRule,
+} from '../../../config/link-placement.config';
+import {
+  BotChallengeDetection,
+  detectBotChallenge,
+} from '../../../config/bot-challenge.config';
+import {
+  UrlMatchPolicy,
+  UrlMatchType,
+  URL_MATCH_SCORES,
+} from '../../../config/url-matching.config';
+import {
+  MAX_REDIRECT_CANDIDATES_PER_PAGE,
+  isRedirectCandidate,
+} from '../../../config/redirect-links.config';
+import {
+  CloakingType,
+  LinkHiddenReason,
+  LinkVisibility,
+  LINK_VISIBILITY_THRESHOLDS,
+  GOOGLEBOT_USER_AGENT,
+} from '../../../config/link-visibility.config';
+import { ConsentDismissal } from '../../../config/consent-banners.config';
+import {
+  NetlinkErrorCategory,
+  classifyNetlinkError,
+} from '../../../config/netlink-errors.config';
+import {
+  ParkedDomainDetection,
+  detectParkedDomain,
+} from '../../../config/parked-domain.config';
 
 import type { Page } from 'playwright-core';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
+/**
+ * Normalized link type sent to the dashboard
+ * Precedence when several qualifiers are present: sponsored > ugc > nofollow
+ */
+export type NetlinkLinkType =
+  | 'dofollow'
+  | 'nofollow'
+  | 'sponsored'
+  | 'ugc'
+  | 'unknown';
+
+/**
+ * Parsed rel attribute of an anchor
+ */
+export interface LinkRelAttributes {
+  raw: string;
+  tokens: string[]; // Lowercased, de-duplicated rel tokens
+  nofollow: boolean;
+  sponsored: boolean;
+  ugc: boolean;
+  noopener: boolean;
+  noreferrer: boolean;
+  googleQualifiers: string[]; // Qualifiers Google uses for ranking: nofollow, sponsored, ugc
+}
+
+/**
+ * Where a matched link sits on the page
+ */
+export interface LinkPlacementInfo {
+  placement: LinkPlacement;
+  paragraphIndex?: number; // Index of the enclosing <p> within the content container
+  aboveTheFold?: boolean;
+  offsetTop?: number; // Distance in px from the top of the document
+}
+
+/**
+ * One anchor of the page pointing to the landing page
+ */
+export interface NetlinkLinkOccurrence {
+  href: string;
+  text: string;
+  outerHTML: string;
+  image?: LinkImage; // Set for image links, text is then the image alt text
+  rel?: string;
+  relAttributes?: LinkRelAttributes;
+  link_type: NetlinkLinkType;
+  placement?: LinkPlacementInfo;
+  matchType?: UrlMatchType;
+  matchScore: number;
+  resolvedHref?: string; // Final destination when the anchor matched through a redirect
+  redirectChain?: string[]; // href, intermediate redirects, final destination
+  visibility?: LinkVisibility; // Rendered in the browser, inline signals only over HTTP
+  source?: LinkSource; // Top document, shadow root or iframe (browser only)
+}
+
+/**
+ * Link presence compared between a reader and Googlebot fetch of the same page
+ */
+export interface CloakingCheck {
+  checked: boolean; // false when the comparison was inconclusive
+  cloaked: boolean;
+  type?: CloakingType;
+  linkPresentForUser?: boolean;
+  linkPresentForBot?: boolean;
+  botStatusCode?: number;
+  reason?: string; // Why the comparison was inconclusive
+}
+
+/**
+ * How the page was fetched
+ * http = plain HTTP fast path, browser = Chromium via LightpandaService
+ */
+export type NetlinkFetchMode = 'http' | 'browser';
+
 /**
  * Scraped Data Interface
  */
 export interface ScrapedNetlinkData {
   url: string;
   netlinkId?: string | number;
+  contractId?: string | number;
   landingPage?: string;
   scrapedAt: string;
   success: boolean;
   error?: string;
+  errorCategory?: NetlinkErrorCategory;
   statusCode?: number; // HTTP status code from page response
+  botChallenge?: BotChallengeDetection; // Set when the page was a challenge/captcha/WAF block
+  parkedDomain?: ParkedDomainDetection; // Set when the page is a parking or domain-for-sale lander
+  consent?: ConsentDismissal; // Cookie consent banner accepted before extraction (browser only)
+  indexability?: IndexabilityAudit;
+  sponsoredDisclosure?: SponsoredDisclosure; // Sponsored labels, categories and schema markup of the post
+  article?: ArticleInfo; // Delivered article: word count, language, title, dates (compared with the order)
+  fetchMode?: NetlinkFetchMode;
+  fastPathFallbackReason?: string; // Why the HTTP fast path handed over to the browser
+  durationMs?: number;
+  transitions?: NetlinkTransition[]; // Changes since the previous check (when history is recorded)
+  pageHtml?: string; // Raw page HTML, only kept until the snapshot is archived
+  contentHash?: string; // sha256 of the archived page HTML
+  snapshotFile?: string; // Archived snapshot file (relative to the netlink archive directory)
+  screenshotPng?: Buffer; // Cropped screenshot of the matched anchor, only kept until stored
+  screenshotFile?: string; // Stored anchor screenshot (relative to the netlink archive directory)
 
   // Found link data
   foundLink?: {
@@ -25,23 +186,53 @@ export interface ScrapedNetlinkData {
     text: string;
     outerHTML: string;
     matched: boolean;
-    matchType?: 'exact' | 'domain' | 'subdomain' | 'partial';
+    matchType?: UrlMatchType;
+    matchScore?: number; // 0-100, see URL_MATCH_SCORES
+    matchPolicy?: UrlMatchPolicy;
+    resolvedHref?: string;
+    redirectChain?: string[];
+    visibility?: LinkVisibility;
+    source?: LinkSource;
+    image?: LinkImage;
     rel?: string;
-    link_type?: string;
+    relAttributes?: LinkRelAttributes;
+    link_type?: NetlinkLinkType;
+    placement?: LinkPlacementInfo;
   };
 
+  // Reader vs Googlebot comparison (when detectCloaking is enabled)
+  cloaking?: CloakingCheck;
+
+  // Landing page redirect chain, when the landing page now redirects elsewhere
+  landingPageRedirect?: RedirectChain;
+
+  // Every anchor accepted by the match policy, in DOM order (foundLink is the primary one)
+  linkOccurrences?: NetlinkLinkOccurrence[];
+
   // Domain match (found domain but not exact URL)
   domainFound?: boolean;
   domainFoundLink?: {
     href: string;
     text: string;
+    matchType?: UrlMatchType;
+    matchScore?: number;
+    resolvedHref?: string;
+    redirectChain?: string[];
+    visibility?: LinkVisibility;
+    source?: LinkSource;
+    image?: LinkImage;
     rel?: string;
-    link_type?: string;
+    relAttributes?: LinkRelAttributes;
+    link_type?: NetlinkLinkType;
+    placement?: LinkPlacementInfo;
   };
 
   // All links found (for debugging)
   allLinksCount?: number;
 
+  // External domains, dofollow share, toxic neighbors and link farm flag of the page
+  outboundLinks?: OutboundLinkProfile;
+
 
   [key: string]: any;
 }
@@ -59,9 +250,24 @@ export interface ScrapeOptions {
   logFilePath?: string;
   enableDomDetailer?: boolean;
   domDetailerConcurrency?: number;
+  fastMode?: boolean; // Try a plain HTTP fetch before launching the browser
+  recordHistory?: boolean; // Record each check in the local history and detect status transitions
+  runId?: string; // Checkpoint the run to disk under this ID and resume it if it already exists
+  perHostConcurrency?: number; // Maximum parallel requests to the same host (default: 1)
+  perHostDelay?: number; // Minimum ms between two requests to the same host (default: 2000)
+  interleaveHosts?: boolean; // Reorder the queue so consecutive items hit different hosts (default: true)
+  archiveSnapshots?: boolean; // Store a compressed HTML snapshot of each checked page
+  captureScreenshots?: boolean; // Screenshot the matched anchor with its context (browser only, disables fastMode)
+  matchPolicy?: UrlMatchPolicy; // Landing page match policy for every netlink (default: per-contract policy)
+  resolveRedirects?: boolean; // Match redirecting anchors and landing pages on their final destination (default: true)
+  detectCloaking?: boolean; // Re-fetch pages with a Googlebot user agent and compare link presence
   onProgress?: (current: number, total: number, url: string) => void;
   onSuccess?: (data: ScrapedNetlinkData) => void | Promise<void>;
-  onError?: (url: string, error: Error) => void | Promise<void>;
+  onError?: (
+    url: string,
+    error: Error,
+    category?: NetlinkErrorCategory,
+  ) => void | Promise<void>;
 }
 
 /**
@@ -75,7 +281,12 @@ export interface ScrapingStats {
   duration: number;
   startTime: Date;
   endTime?: Date;
-  errors: Array<{ url: string; error: string }>;
+  errors: Array<{
+    url: string;
+    error: string;
+    category?: NetlinkErrorCategory;
+  }>;
+  errorsByCategory: Partial<Record<NetlinkErrorCategory, number>>;
 }
 
 /**
@@ -83,9 +294,34 @@ export interface ScrapingStats {
  */
 export interface NetlinkAdditionalInfo {
   netlink_id: number;
-  link_type: string; // 'dofollow' | 'nofollow' | 'unknown'
-  online_status: number; // 1 = exact link found, 2 = no matching link found, 3 = site not accessible/offline, 4 = domain found but not exact URL
+  link_type: NetlinkLinkType;
+  rel?: string; // Normalized rel tokens, space separated
+  link_placement?: LinkPlacement;
+  paragraph_index?: number;
+  above_the_fold?: boolean;
+  online_status: number; // 1 = exact link found, 2 = no matching link found, 3 = site not accessible/offline, 4 = domain found but not exact URL, 5 = blocked by bot challenge, 6 = link hidden, 7 = link cloaked, 8 = domain parked/expired
+  match_score?: number; // 0-100 landing page match score of the reported link
+  link_count?: number; // Anchors of the page pointing to the landing page
+  anchor_text?: string; // Text of the matched anchor, alt text of an image link (online_status 1, 6, 7)
+  image_link?: boolean; // The matched anchor is an image without text
+  image_src?: string;
+  hidden_reasons?: LinkHiddenReason[]; // Why the link is not visible (online_status 6)
+  cloaking_type?: CloakingType; // online_status 7
   status_code?: number; // HTTP status code from page response
+  error_category?: NetlinkErrorCategory;
+  external_domains?: number; // External domains linked from the page
+  dofollow_outbound_share?: number; // 0-1, dofollow external links / external links
+  toxic_link_count?: number; // Outbound links to casino, adult, pharma or loans sites
+  link_farm?: boolean;
+  sponsored_disclosure?: boolean; // The post is labelled as sponsored (text, badge, category or schema)
+  word_count?: number; // Words of the delivered article body
+  word_count_met?: boolean; // Word count reaches the ordered articles_words (within NETLINK_WORD_COUNT_TOLERANCE)
+  article_language?: string;
+  article_title?: string;
+  published_at?: string;
+  modified_at?: string;
+  indexable?: boolean;
+  indexability_issues?: string[];
 }
 
 /**
@@ -121,6 +357,16 @@ export class NetlinkScraperService {
     private readonly lightpanda: LightpandaService,
     private readonly netlinkService: NetlinkService,
     private readonly dashboardClient: DashboardHttpClient,
+    private readonly httpPage: HttpPageService,
+    private readonly indexabilityService: IndexabilityService,
+    private readonly historyService: NetlinkHistoryService,
+    private readonly checkpointService: NetlinkRunCheckpointService,
+    private readonly snapshotService: NetlinkSnapshotService,
+    private readonly urlMatcher: UrlMatcherService,
+    private readonly redirectResolver: RedirectResolverService,
+    private readonly outboundLinkProfile: OutboundLinkProfileService,
+    private readonly sponsoredDisclosureService: SponsoredDisclosureService,
+    private readonly articleExtractor: ArticleExtractorService,
   ) {}
 
   /**
@@ -189,18 +435,137 @@ export class NetlinkScraperService {
     await this.writeLog(`URL: ${result.url}`);
     await this.writeLog(`LANDING PAGE: ${result.landingPage || 'N/A'}`);
     await this.writeLog(`STATUS: ${result.success ? 'SUCCESS' : 'FAILED'}`);
+    await this.writeLog(
+      `FETCH MODE: ${result.fetchMode || 'N/A'}${result.fastPathFallbackReason ? ` (fallback: ${result.fastPathFallbackReason})` : ''}`,
+    );
+    if (result.consent) {
+      await this.writeLog(
+        `CONSENT BANNER: ${result.consent.cmp} (${result.consent.method}${result.consent.selector ? `: ${result.consent.selector}` : ''})`,
+      );
+    }
 
     if (result.success) {
       await this.writeLog(`ALL LINKS FOUND: ${result.allLinksCount || 0}`);
 
+      if (result.article) {
+        const article = result.article;
+        await this.writeLog(
+          `ARTICLE: "${article.title || 'N/A'}" (${article.container || 'no container'})`,
+        );
+        await this.writeLog(
+          `WORD COUNT: ${article.wordCount}${article.orderedWordCount ? ` / ${article.orderedWordCount} ordered (${article.wordCountMet ? 'OK' : 'SHORT'})` : ''}`,
+        );
+        await this.writeLog(
+          `LANGUAGE: ${article.language || 'unknown'}${article.htmlLang ? ` (html lang: ${article.htmlLang})` : ''}`,
+        );
+        await this.writeLog(
+          `PUBLISHED: ${article.publishedAt || 'N/A'} | MODIFIED: ${article.modifiedAt || 'N/A'}`,
+        );
+      }
+
+      if (result.sponsoredDisclosure) {
+        const disclosure = result.sponsoredDisclosure;
+        await this.writeLog(
+          `SPONSORED DISCLOSURE: ${disclosure.disclosed ? `YES (${disclosure.matches.map((m) => `${m.source}: ${m.value}`).join(' | ')})` : 'NO'}`,
+        );
+      }
+
+      if (result.outboundLinks) {
+        const outbound = result.outboundLinks;
+        await this.writeLog(
+          `OUTBOUND LINKS: ${outbound.externalLinks} external (${outbound.externalDomains} domains), ${Math.round(outbound.dofollowShare * 100)}% dofollow`,
+        );
+        if (outbound.toxicLinks.length > 0) {
+          await this.writeLog(
+            `TOXIC LINKS: ${this.formatToxicCategories(outbound)}`,
+          );
+        }
+        if (outbound.linkFarm) {
+          await this.writeLog(
+            `LINK FARM: YES (${outbound.linkFarmSignals.join(', ')})`,
+          );
+        }
+      }
+
+      if (result.cloaking) {
+        await this.writeLog(
+          `CLOAKING: ${!result.cloaking.checked ? `not checked (${result.cloaking.reason})` : result.cloaking.cloaked ? `YES (${result.cloaking.type})` : 'NO'}`,
+        );
+      }
+
+      if (result.landingPageRedirect) {
+        await this.writeLog(
+          `LANDING PAGE REDIRECTS TO: ${result.landingPageRedirect.finalUrl} (${result.landingPageRedirect.hops.length} hops)`,
+        );
+      }
+
+      if (result.indexability) {
+        await this.writeLog(
+          `INDEXABLE: ${result.indexability.indexable ? 'YES' : `NO (${result.indexability.issues.join(', ')})`}`,
+        );
+        if (result.indexability.canonicalUrl) {
+          await this.writeLog(
+            `CANONICAL: ${result.indexability.canonicalUrl}${result.indexability.canonicalPointsElsewhere ? ' (points elsewhere)' : ''}`,
+          );
+        }
+      }
+
       if (result.foundLink) {
         await this.writeLog(`LINK MATCHED: ${result.foundLink.matched}`);
         if (result.foundLink.matched) {
-          await this.writeLog(`MATCH TYPE: ${result.foundLink.matchType || 'N/A'}`);
-          await this.writeLog(`LINK TYPE: ${result.foundLink.link_type || 'unknown'}`);
+          await this.writeLog(
+            `MATCH TYPE: ${result.foundLink.matchType || 'N/A'}`,
+          );
+          await this.writeLog(
+            `MATCH SCORE: ${result.foundLink.matchScore ?? 'N/A'} (${result.foundLink.matchPolicy || 'N/A'} policy)`,
+          );
+          await this.writeLog(
+            `LINK TYPE: ${result.foundLink.link_type || 'unknown'}`,
+          );
           await this.writeLog(`LINK HREF: ${result.foundLink.href}`);
+          if (result.foundLink.redirectChain) {
+            await this.writeLog(
+              `REDIRECT CHAIN: ${result.foundLink.redirectChain.join(' -> ')}`,
+            );
+          }
           await this.writeLog(`LINK TEXT: ${result.foundLink.text}`);
+          if (result.foundLink.image) {
+            const image = result.foundLink.image;
+            const size =
+              image.width && image.height
+                ? ` ${image.width}x${image.height}`
+                : '';
+            await this.writeLog(
+              `IMAGE LINK: ${image.kind}${size} alt="${image.alt}" src=${image.src || 'N/A'}`,
+            );
+          }
           await this.writeLog(`LINK REL: ${result.foundLink.rel || 'none'}`);
+          await this.writeLog(
+            `GOOGLE REL QUALIFIERS: ${result.foundLink.relAttributes?.googleQualifiers.join(', ') || 'none'}`,
+          );
+          await this.writeLog(
+            `PLACEMENT: ${result.foundLink.placement?.placement || 'unknown'} (paragraph: ${result.foundLink.placement?.paragraphIndex ?? 'N/A'}, above the fold: ${result.foundLink.placement?.aboveTheFold ?? 'N/A'})`,
+          );
+          if (result.foundLink.visibility) {
+            await this.writeLog(
+              `VISIBLE: ${result.foundLink.visibility.visible ? 'YES' : `NO (${result.foundLink.visibility.reasons.join(', ')})`}`,
+            );
+          }
+          if (result.foundLink.source) {
+            await this.writeLog(
+              `FOUND IN: ${this.describeLinkSource(result.foundLink.source)}`,
+            );
+          }
+          if (result.linkOccurrences?.length > 1) {
+            await this.writeLog(
+              `OCCURRENCES: ${result.linkOccurrences.length}`,
+            );
+            for (const occurrence of result.linkOccurrences) {
+              await this.writeLog(
+                `  - ${occurrence.link_type} | ${occurrence.placement?.placement || 'unknown'} | "${occurrence.text}" | ${occurrence.href}`,
+              );
+            }
+          }
         } else if (result.domainFound) {
           // Domain found but not exact URL
           await this.writeLog(`DOMAIN MATCH FOUND: YES`);
@@ -215,6 +580,11 @@ export class NetlinkScraperService {
       }
     } else {
       await this.writeLog(`ERROR: ${result.error}`);
+      if (result.botChallenge) {
+        await this.writeLog(
+          `BLOCKED BY: ${result.botChallenge.provider} ${result.botChallenge.kind} (${result.botChallenge.signals.join('; ')})`,
+        );
+      }
     }
 
     await this.writeLog(`SCRAPED AT: ${result.scrapedAt}`);
@@ -237,316 +607,1620 @@ export class NetlinkScraperService {
   }
 
   /**
-   * Transform scraped result to NetlinkAdditionalInfo format
+   * Transform scraped result to NetlinkAdditionalInfo format
+   */
+  private transformToAdditionalInfo(result: ScrapedNetlinkData): NetlinkAdditionalInfo | null {
+    // Skip if no netlinkId
+    if (!result.netlinkId) {
+      this.logger.warn(`Skipping result without netlinkId: ${result.url}`);
+      return null;
+    }
+
+    // Determine link_type from the foundLink or domainFoundLink
+    // Older results may carry free-form values ("DoFollow", raw rel strings), so normalize them
+    let link_type: NetlinkLinkType = 'unknown'; // Default to unknown
+    let relAttributes: LinkRelAttributes | undefined;
+    let placement: LinkPlacementInfo | undefined;
+    let matchScore: number | undefined;
+
+    if (result.success && result.foundLink?.matched && result.foundLink?.link_type) {
+      // Exact match found
+      link_type = this.normalizeLinkType(result.foundLink.link_type);
+      relAttributes = result.foundLink.relAttributes;
+      placement = result.foundLink.placement;
+      matchScore = result.foundLink.matchScore;
+    } else if (result.success && result.domainFound && result.domainFoundLink?.link_type) {
+      // Domain match found
+      link_type = this.normalizeLinkType(result.domainFoundLink.link_type);
+      relAttributes = result.domainFoundLink.relAttributes;
+      placement = result.domainFoundLink.placement;
+      matchScore = result.domainFoundLink.matchScore;
+    }
+
+    // Determine online_status
+    // 1 = exact link found & accessible (success with matched link)
+    // 2 = no matching link found at all (success but no link or domain found)
+    // 3 = site not accessible/offline (failed to scrape)
+    // 4 = domain found but not exact URL (success with domain match only)
+    // 5 = blocked by a bot challenge/captcha (link state unknown, not a removal)
+    // 6 = link found but hidden from readers (display:none, off-screen, same color as background...)
+    // 7 = link cloaked: served to readers but not to Googlebot, or the other way round
+    // 8 = domain parked/expired: the URL now shows a registrar parking or domain-for-sale page
+    let online_status: number;
+
+    if (result.errorCategory === 'bot_challenge') {
+      // Page could not be checked because of an anti-bot interstitial
+      online_status = 5;
+    } else if (result.errorCategory === 'parked_domain') {
+      // The publisher let the domain lapse
+      online_status = 8;
+    } else if (!result.success) {
+      // Site is not accessible or failed to scrape
+      online_status = 3;
+    } else if (result.cloaking?.cloaked) {
+      // Readers and Googlebot get a different page
+      online_status = 7;
+    } else if (
+      result.foundLink?.matched === true &&
+      result.foundLink.visibility?.visible === false
+    ) {
+      // Link is in the DOM but not visible
+      online_status = 6;
+    } else if (result.foundLink?.matched === true) {
+      // Site is accessible and exact matching link found
+      online_status = 1;
+    } else if (result.domainFound === true) {
+      // Site is accessible and domain found but not exact URL
+      online_status = 4;
+    } else {
+      // Site is accessible but no matching link or domain found
+      online_status = 2;
+    }
+
+    // Build the additional info object
+    const additionalInfo: NetlinkAdditionalInfo = {
+      netlink_id: Number(result.netlinkId),
+      link_type,
+      online_status,
+    };
+
+    // Add landing page match score if available
+    if (matchScore !== undefined) {
+      additionalInfo.match_score = matchScore;
+    }
+
+    // Add the number of anchors pointing to the landing page
+    if (result.success && result.linkOccurrences) {
+      additionalInfo.link_count = result.linkOccurrences.length;
+    }
+
+    // Add the anchor text of the matched link
+    if (result.success && result.foundLink?.matched) {
+      additionalInfo.anchor_text = result.foundLink.text;
+      additionalInfo.image_link = !!result.foundLink.image;
+      if (result.foundLink.image?.src) {
+        additionalInfo.image_src = result.foundLink.image.src;
+      }
+    }
+
+    // Add hidden link reasons and cloaking type
+    if (online_status === 6) {
+      additionalInfo.hidden_reasons = result.foundLink.visibility.reasons;
+    }
+    if (online_status === 7) {
+      additionalInfo.cloaking_type = result.cloaking.type;
+    }
+
+    // Add status code if available
+    if (result.statusCode !== undefined) {
+      additionalInfo.status_code = result.statusCode;
+    }
+
+    // Add error category if available
+    if (result.errorCategory) {
+      additionalInfo.error_category = result.errorCategory;
+    }
+
+    // Add the outbound link profile if available
+    if (result.success && result.outboundLinks) {
+      additionalInfo.external_domains = result.outboundLinks.externalDomains;
+      additionalInfo.dofollow_outbound_share =
+        result.outboundLinks.dofollowShare;
+      additionalInfo.toxic_link_count = result.outboundLinks.toxicLinks.length;
+      additionalInfo.link_farm = result.outboundLinks.linkFarm;
+    }
+
+    // Add sponsored disclosure if available
+    if (result.success && result.sponsoredDisclosure) {
+      additionalInfo.sponsored_disclosure =
+        result.sponsoredDisclosure.disclosed;
+    }
+
+    // Add the delivered article if available
+    if (result.success && result.article) {
+      additionalInfo.word_count = result.article.wordCount;
+      if (result.article.wordCountMet !== undefined) {
+        additionalInfo.word_count_met = result.article.wordCountMet;
+      }
+      additionalInfo.article_language = result.article.language;
+      additionalInfo.article_title = result.article.title;
+      additionalInfo.published_at = result.article.publishedAt;
+      additionalInfo.modified_at = result.article.modifiedAt;
+    }
+
+    // Add indexability audit if available
+    if (result.success && result.indexability) {
+      additionalInfo.indexable = result.indexability.indexable;
+      additionalInfo.indexability_issues = result.indexability.issues;
+    }
+
+    // Add normalized rel tokens if available
+    if (relAttributes && relAttributes.tokens.length > 0) {
+      additionalInfo.rel = relAttributes.tokens.join(' ');
+    }
+
+    // Add link placement if available
+    if (placement) {
+      additionalInfo.link_placement = placement.placement;
+      if (placement.paragraphIndex !== undefined) {
+        additionalInfo.paragraph_index = placement.paragraphIndex;
+      }
+      if (placement.aboveTheFold !== undefined) {
+        additionalInfo.above_the_fold = placement.aboveTheFold;
+      }
+    }
+
+    return additionalInfo;
+  }
+
+  /**
+   * Record a result in the check history and return the transitions since the last check
+   * History failures are logged and never fail the scrape
+   */
+  private async recordCheck(
+    result: ScrapedNetlinkData,
+  ): Promise<NetlinkTransition[]> {
+    const additionalInfo = this.transformToAdditionalInfo(result);
+    if (!additionalInfo) {
+      return [];
+    }
+
+    const link = result.foundLink?.matched
+      ? result.foundLink
+      : result.domainFoundLink;
+
+    try {
+      return await this.historyService.record({
+        netlinkId: additionalInfo.netlink_id,
+        contractId: result.contractId,
+        url: result.url,
+        landingPage: result.landingPage,
+        checkedAt: result.scrapedAt,
+        onlineStatus: additionalInfo.online_status,
+        statusCode: additionalInfo.status_code,
+        linkType: additionalInfo.link_type,
+        matchType: result.foundLink?.matched
+          ? result.foundLink.matchType
+          : undefined,
+        href: link?.href,
+        linkCount: additionalInfo.link_count,
+        anchorText: additionalInfo.anchor_text,
+        anchorImageAlt: result.foundLink?.matched
+          ? result.foundLink.image?.alt
+          : undefined,
+        articleWordCount: result.success
+          ? result.article?.wordCount
+          : undefined,
+        articleTextHash: result.success ? result.article?.textHash : undefined,
+        articleModifiedAt: result.success
+          ? result.article?.modifiedAt
+          : undefined,
+        indexable: additionalInfo.indexable,
+        errorCategory: additionalInfo.error_category,
+        screenshotFile: result.screenshotFile,
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Failed to record history for netlink ${result.netlinkId}: ${error.message}`,
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Get the URL to scrape from a netlink item
+   */
+  private getNetlinkUrl(netlink: NetlinkItem): string | undefined {
+    return netlink.url_bought || netlink.url || netlink.link || netlink.href;
+  }
+
+  /**
+   * Host key used for per-host politeness (lowercase, without www.)
+   */
+  private getHostKey(url?: string): string {
+    if (!url) return '';
+    try {
+      return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+    } catch {
+      return '';
+    }
+  }
+
+  /**
+   * Reorder netlinks round-robin across hosts, so consecutive items hit different publishers
+   * e.g. [a1, a2, a3, b1, c1] -> [a1, b1, c1, a2, a3]
+   */
+  private interleaveByHost(netlinks: NetlinkItem[]): NetlinkItem[] {
+    const buckets = new Map<string, NetlinkItem[]>();
+    for (const netlink of netlinks) {
+      const host = this.getHostKey(this.getNetlinkUrl(netlink));
+      if (!buckets.has(host)) buckets.set(host, []);
+      buckets.get(host).push(netlink);
+    }
+
+    const interleaved: NetlinkItem[] = [];
+    const lists = Array.from(buckets.values());
+    for (let round = 0; interleaved.length < netlinks.length; round++) {
+      lists.forEach((list) => {
+        if (round < list.length) interleaved.push(list[round]);
+      });
+    }
+
+    return interleaved;
+  }
+
+  /**
+   * Append a completed item to the run checkpoint
+   * Checkpoint failures are logged and never fail the scrape
+   */
+  private async checkpointResult(
+    runId: string | undefined,
+    result: ScrapedNetlinkData,
+  ): Promise<void> {
+    if (!runId) return;
+
+    try {
+      await this.checkpointService.recordResult(runId, result);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to checkpoint ${result.url} in run ${runId}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Archive the snapshot of a checked page and reference it in the result
+   * Archive failures are logged and never fail the scrape
+   */
+  private async archiveSnapshot(result: ScrapedNetlinkData): Promise<void> {
+    const additionalInfo = result.pageHtml
+      ? this.transformToAdditionalInfo(result)
+      : null;
+    if (!additionalInfo) {
+      return;
+    }
+
+    const link = result.foundLink?.matched
+      ? result.foundLink
+      : result.domainFound
+        ? result.domainFoundLink
+        : undefined;
+
+    try {
+      const snapshot = await this.snapshotService.save({
+        netlinkId: additionalInfo.netlink_id,
+        url: result.url,
+        checkedAt: result.scrapedAt,
+        html: result.pageHtml,
+        linkPresent: !!link,
+        onlineStatus: additionalInfo.online_status,
+        linkHref: link?.href,
+        linkOuterHTML: result.foundLink?.matched
+          ? result.foundLink.outerHTML
+          : undefined,
+      });
+
+      result.contentHash = snapshot.contentHash;
+      result.snapshotFile = snapshot.file;
+    } catch (error) {
+      this.logger.warn(
+        `Failed to archive snapshot of ${result.url}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Store the anchor screenshot of a result in the netlink evidence archive
+   */
+  private async storeScreenshot(result: ScrapedNetlinkData): Promise<void> {
+    if (!result.netlinkId) {
+      return;
+    }
+
+    try {
+      result.screenshotFile = await this.snapshotService.saveScreenshot(
+        Number(result.netlinkId),
+        result.scrapedAt,
+        result.screenshotPng,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to store screenshot of ${result.url}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Get the "changes since last check" list from recorded results
+   */
+  getChangesSinceLastCheck(results: ScrapedNetlinkData[]): NetlinkChange[] {
+    return results
+      .filter((result) => result.transitions && result.transitions.length > 0)
+      .map((result) => ({
+        netlinkId: Number(result.netlinkId),
+        contractId: result.contractId,
+        url: result.url,
+        landingPage: result.landingPage,
+        checkedAt: result.scrapedAt,
+        transitions: result.transitions,
+      }));
+  }
+
+  /**
+   * Post batch results to the upsert endpoint
+   */
+  async postBatchResults(
+    results: ScrapedNetlinkData[],
+    options?: Pick<ScrapeOptions, 'runId'>,
+  ): Promise<void> {
+    const runId = options?.runId;
+
+    try {
+      // Only post what a previous attempt of the same run did not post yet
+      const pending = runId
+        ? await this.checkpointService.getUnpostedResults(runId, results)
+        : results;
+
+      if (runId && pending.length < results.length) {
+        this.logger.log(
+          `Run ${runId}: ${results.length - pending.length} results already posted, posting ${pending.length} remaining`,
+        );
+      }
+
+      // Transform results to additional info format
+      const items: NetlinkAdditionalInfo[] = pending
+        .map(result => this.transformToAdditionalInfo(result))
+        .filter((item): item is NetlinkAdditionalInfo => item !== null);
+
+      if (items.length === 0) {
+        this.logger.warn('No valid items to upsert');
+        if (runId) {
+          await this.checkpointService.markPosted(runId, pending);
+        }
+        return;
+      }
+
+      const requestBody: BatchUpsertRequest = { items };
+
+      this.logger.log(`Posting ${items.length} items to /netlink/additionalInfo/upsert`);
+      this.logger.debug(`Request body: ${JSON.stringify(requestBody, null, 2)}`);
+
+      // Post to the endpoint
+      const response = await this.dashboardClient.post(
+        '/netlink/additionalInfo/upsert',
+        requestBody
+      );
+
+      this.logger.log(`✓ Batch upsert successful: ${JSON.stringify(response)}`);
+
+      if (runId) {
+        await this.checkpointService.markPosted(runId, pending);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to post batch results: ${error.message}`);
+      if (error.response) {
+        this.logger.error(`Response data: ${JSON.stringify(error.response.data)}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Parse a rel attribute into its individual tokens and flags
+   */
+  private parseRelAttribute(rel?: string | null): LinkRelAttributes {
+    const raw = (rel || '').trim();
+    const tokens = Array.from(
+      new Set(raw.toLowerCase().split(/\s+/).filter(Boolean)),
+    );
+
+    const has = (token: string) => tokens.includes(token);
+
+    return {
+      raw,
+      tokens,
+      nofollow: has('nofollow'),
+      sponsored: has('sponsored'),
+      ugc: has('ugc'),
+      noopener: has('noopener'),
+      noreferrer: has('noreferrer'),
+      googleQualifiers: ['nofollow', 'sponsored', 'ugc'].filter(has),
+    };
+  }
+
+  /**
+   * Derive the normalized link type from parsed rel attributes
+   * Rule: sponsored > ugc > nofollow > dofollow (no Google qualifier)
+   */
+  private getLinkType(relAttributes: LinkRelAttributes): NetlinkLinkType {
+    if (relAttributes.sponsored) return 'sponsored';
+    if (relAttributes.ugc) return 'ugc';
+    if (relAttributes.nofollow) return 'nofollow';
+    return 'dofollow';
+  }
+
+  /**
+   * Normalize a stored link_type value (legacy values included) to NetlinkLinkType
+   */
+  private normalizeLinkType(value?: string): NetlinkLinkType {
+    const normalized = (value || '').trim().toLowerCase();
+
+    if (!normalized || normalized === 'unknown') {
+      return 'unknown';
+    }
+
+    if (['dofollow', 'nofollow', 'sponsored', 'ugc'].includes(normalized)) {
+      return normalized as NetlinkLinkType;
+    }
+
+    // Legacy results stored the raw rel value (e.g. "noreferrer noopener")
+    return this.getLinkType(this.parseRelAttribute(normalized));
+  }
+
+  /**
+   * Classify where a link sits on the page from its DOM ancestry
+   * The nearest ancestor matching a placement rule wins
+   */
+  private classifyLinkPlacement(
+    link: ExtractedLink,
+    viewportHeight: number,
+  ): LinkPlacementInfo {
+    let placement: LinkPlacement = 'unknown';
+
+    for (const ancestor of link.ancestors) {
+      const matched = matchPlacementRule(ancestor);
+      if (matched) {
+        placement = matched;
+        break;
+      }
+    }
+
+    return {
+      placement,
+      paragraphIndex:
+        link.paragraphIndex >= 0 ? link.paragraphIndex : undefined,
+      aboveTheFold:
+        link.offsetTop !== undefined
+          ? link.offsetTop < viewportHeight
+          : undefined,
+      offsetTop: link.offsetTop,
+    };
+  }
+
+  /**
+   * Extract data from a page - Find <a> tag containing landing_page URL
+   */
+  private async extractData(
+    page: Page,
+    url: string,
+    landingPage: string | undefined,
+    matchPolicy: UrlMatchPolicy,
+    resolveRedirects: boolean,
+  ): Promise<Partial<ScrapedNetlinkData>> {
+    try {
+      // Wait for page to load
+      await page.waitForSelector('body', { timeout: 5000 });
+
+      // Let scripts settle, then scroll through the page so lazy-loaded sections are rendered
+      await page
+        .waitForLoadState('networkidle', { timeout: 3000 })
+        .catch(() => undefined);
+      await this.lightpanda.scrollThroughPage(page);
+
+      // Get all links from the page, its open shadow roots and same-origin iframes
+      const linksData = await this.collectRenderedLinks(page);
+      const viewportHeight = page.viewportSize()?.height || 1080;
+
+      return await this.matchLinks(
+        linksData,
+        url,
+        landingPage,
+        matchPolicy,
+        resolveRedirects,
+        viewportHeight,
+      );
+    } catch (error) {
+      this.logger.error(`Error extracting data from ${url}: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Collect the anchors of a rendered page with rel attribute, DOM ancestry and rendered visibility
+   * Open shadow roots and same-origin iframes are included, each link records where it was found.
+   * Cross-origin iframes (ads, embeds) are skipped: links there are not part of the article
+   */
+  private async collectRenderedLinks(page: Page): Promise<ExtractedLink[]> {
+    const mainOrigin = this.getOrigin(page.url());
+    const linksData: ExtractedLink[] = [];
+
+    for (const frame of page.frames()) {
+      const isMainFrame = frame === page.mainFrame();
+      const frameUrl = frame.url();
+      if (
+        !isMainFrame &&
+        !frameUrl.startsWith('about:') &&
+        this.getOrigin(frameUrl) !== mainOrigin
+      ) {
+        continue;
+      }
+
+      // Position of the iframe in the top document, and whether it is displayed at all
+      let frameOffset = 0;
+      let frameVisible = true;
+      try {
+        for (
+          let current = frame;
+          current.parentFrame();
+          current = current.parentFrame()
+        ) {
+          const element = await current.frameElement();
+          frameVisible = frameVisible && (await element.isVisible());
+          frameOffset += await element.evaluate((el: Element) =>
+            Math.round(el.getBoundingClientRect().top + window.scrollY),
+          );
+        }
+      } catch {
+        continue; // Frame detached while walking the page
+      }
+
+      const frameLinks = (await frame
+        .evaluate(
+          ({ thresholds, lazySrcAttributes }) => {
+            // Parent element, crossing shadow root boundaries
+            const parentOf = (el: Element): Element | null =>
+              el.parentElement ||
+              (el.parentNode as ShadowRoot | null)?.host ||
+              null;
+
+            const parseColor = (value: string): number[] | null => {
+              const parts = value
+                .match(/rgba?\(([^)]+)\)/)?.[1]
+                .split(/[\s,/]+/)
+                .filter(Boolean)
+                .map(Number);
+              if (!parts || parts.length < 3 || parts.some(isNaN)) return null;
+              return [parts[0], parts[1], parts[2], parts[3] ?? 1];
+            };
+            const luminance = ([r, g, b]: number[]) => {
+              const channel = (c: number) => {
+                const v = c / 255;
+                return v <= 0.03928
+                  ? v / 12.92
+                  : Math.pow((v + 0.055) / 1.055, 2.4);
+              };
+              return (
+                0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b)
+              );
+            };
+            // First opaque background behind the element, undefined when an image is painted behind it
+            const getBackground = (element: Element): number[] | undefined => {
+              for (let el: Element | null = element; el; el = parentOf(el)) {
+                const style = getComputedStyle(el);
+                if (style.backgroundImage && style.backgroundImage !== 'none')
+                  return undefined;
+                const color = parseColor(style.backgroundColor);
+                if (color && color[3] > 0.5) return color;
+              }
+              return [255, 255, 255, 1];
+            };
+
+            const getVisibility = (link: HTMLAnchorElement) => {
+              const reasons: string[] = [];
+              const style = getComputedStyle(link);
+              const rect = link.getBoundingClientRect();
+
+              if (link.getClientRects().length === 0) {
+                reasons.push('display_none');
+              } else {
+                const hasArea = (r: DOMRect) => r.width >= 1 && r.height >= 1;
+                if (
+                  !hasArea(rect) &&
+                  !Array.from(link.querySelectorAll('*')).some((child) =>
+                    hasArea(child.getBoundingClientRect()),
+                  )
+                ) {
+                  reasons.push('zero_size');
+                }
+              }
+
+              if (
+                style.visibility === 'hidden' ||
+                style.visibility === 'collapse'
+              ) {
+                reasons.push('visibility_hidden');
+              }
+
+              let opacity = 1;
+              let clipped = false;
+              for (let el: Element | null = link; el; el = parentOf(el)) {
+                const elStyle = getComputedStyle(el);
+                opacity *= parseFloat(elStyle.opacity || '1');
+                if (
+                  elStyle.clip === 'rect(0px, 0px, 0px, 0px)' ||
+                  /inset\(\s*(50|100)%/.test(elStyle.clipPath)
+                ) {
+                  clipped = true;
+                }
+              }
+              if (opacity < thresholds.minOpacity) reasons.push('transparent');
+              if (clipped) reasons.push('clipped');
+
+              const hasImage = link.querySelector('img, svg, picture') !== null;
+              const hasText = (link.textContent || '').trim().length > 0;
+              if (
+                hasText &&
+                !hasImage &&
+                parseFloat(style.fontSize) < thresholds.minFontSizePx
+              ) {
+                reasons.push('tiny_font');
+              }
+
+              const documentWidth = document.documentElement.scrollWidth;
+              if (
+                rect.right + window.scrollX <= 0 ||
+                rect.bottom + window.scrollY <= 0 ||
+                rect.left + window.scrollX >= documentWidth ||
+                parseFloat(style.textIndent) <= -999
+              ) {
+                reasons.push('off_screen');
+              }
+
+              if (hasText && !hasImage) {
+                const color = parseColor(style.color);
+                const background = getBackground(link);
+                if (color && background) {
+                  const [light, dark] = [
+                    luminance(color),
+                    luminance(background),
+                  ].sort((a, b) => b - a);
+                  if (
+                    (light + 0.05) / (dark + 0.05) <
+                    thresholds.minContrastRatio
+                  ) {
+                    reasons.push('same_color_as_background');
+                  }
+                }
+              }
+
+              return { visible: reasons.length === 0, reasons };
+            };
+
+            // Text of an anchor without SVG <title> labels, scripts and styles
+            const getText = (node: Node): string => {
+              if (node.nodeType === Node.TEXT_NODE)
+                return node.textContent || '';
+              if (
+                node instanceof Element &&
+                ['svg', 'script', 'style'].includes(node.tagName.toLowerCase())
+              )
+                return '';
+              return Array.from(node.childNodes).map(getText).join('');
+            };
+
+            // Image of an anchor without text, with its rendered size
+            const getImage = (link: HTMLAnchorElement) => {
+              const element = link.querySelector('img, svg');
+              if (!element) return undefined;
+
+              const rect = element.getBoundingClientRect();
+              const size = {
+                width: Math.round(rect.width) || undefined,
+                height: Math.round(rect.height) || undefined,
+              };
+
+              if (element instanceof HTMLImageElement) {
+                let src = element.currentSrc || element.src;
+                if (!src || src.startsWith('data:')) {
+                  const lazySrc = lazySrcAttributes
+                    .map((name) => element.getAttribute(name))
+                    .find(Boolean);
+                  if (lazySrc) src = new URL(lazySrc, document.baseURI).href;
+                }
+                return {
+                  kind:
+                    element.closest('picture') &&
+                    link.contains(element.closest('picture'))
+                      ? 'picture'
+                      : 'img',
+                  alt: (element.getAttribute('alt') || '').trim(),
+                  src: src || undefined,
+                  width: size.width ?? (element.width || undefined),
+                  height: size.height ?? (element.height || undefined),
+                };
+              }
+
+              return {
+                kind: 'svg',
+                alt: (
+                  element.getAttribute('aria-label') ||
+                  element.querySelector('title')?.textContent ||
+                  ''
+                ).trim(),
+                ...size,
+              };
+            };
+
+            // Anchors in DOM order, open shadow roots are walked where their host stands
+            const links: Array<{
+              link: HTMLAnchorElement;
+              shadowHost?: string;
+            }> = [];
+            const walk = (root: Document | ShadowRoot, shadowHost?: string) => {
+              root.querySelectorAll('*').forEach((el) => {
+                if (el instanceof HTMLAnchorElement)
+                  links.push({ link: el, shadowHost });
+                if (el.shadowRoot)
+                  walk(
+                    el.shadowRoot,
+                    `${el.tagName.toLowerCase()}${el.id ? `#${el.id}` : ''}`,
+                  );
+              });
+            };
+            walk(document);
+
+            return links.map(({ link, shadowHost }) => {
+              const ancestors = [];
+              let element = parentOf(link);
+              while (
+                element &&
+                element !== document.body &&
+                element !== document.documentElement
+              ) {
+                ancestors.push({
+                  tag: element.tagName.toLowerCase(),
+                  id: element.id || '',
+                  className:
+                    typeof element.className === 'string'
+                      ? element.className
+                      : '',
+                  role: element.getAttribute('role') || '',
+                });
+                element = parentOf(element);
+              }
+
+              // Paragraph index is counted within the article/main container when there is one
+              const paragraph = link.closest('p');
+              const container =
+                link.closest('article, main, [role="main"]') ||
+                (link.getRootNode() as Document | ShadowRoot);
+              const paragraphIndex = paragraph
+                ? Array.from(container.querySelectorAll('p')).indexOf(paragraph)
+                : -1;
+
+              const text = getText(link).replace(/\s+/g, ' ').trim();
+              const image = text ? undefined : getImage(link);
+
+              return {
+                href: link.href,
+                text: image ? image.alt : text,
+                outerHTML: link.outerHTML,
+                rel: link.getAttribute('rel') || '',
+                image,
+                ancestors,
+                paragraphIndex,
+                offsetTop: Math.round(
+                  link.getBoundingClientRect().top + window.scrollY,
+                ),
+                visibility: getVisibility(link),
+                source: {
+                  context: shadowHost ? 'shadow_root' : 'document',
+                  shadowHost,
+                },
+              };
+            });
+          },
+          {
+            thresholds: LINK_VISIBILITY_THRESHOLDS,
+            lazySrcAttributes: LAZY_IMAGE_SRC_ATTRIBUTES,
+          },
+        )
+        .catch((error) => {
+          if (isMainFrame) throw error;
+          this.logger.debug(
+            `Could not read links of iframe ${frameUrl}: ${error.message}`,
+          );
+          return [];
+        })) as ExtractedLink[];
+
+      for (const link of frameLinks) {
+        if (!isMainFrame) {
+          link.source = { ...link.source, context: 'iframe', frameUrl };
+          link.offsetTop = (link.offsetTop ?? 0) + frameOffset;
+          if (!frameVisible && link.visibility) {
+            link.visibility = {
+              visible: false,
+              reasons: Array.from(
+                new Set([...link.visibility.reasons, 'display_none' as const]),
+              ),
+            };
+          }
+        }
+        linksData.push(link);
+      }
+    }
+
+    return linksData;
+  }
+
+  /**
+   * Human-readable location of a link, e.g. "iframe https://site.fr/widget.html > shadow root of article-body"
+   */
+  private describeLinkSource(source: LinkSource): string {
+    return (
+      [
+        source.frameUrl ? `iframe ${source.frameUrl}` : undefined,
+        source.shadowHost ? `shadow root of ${source.shadowHost}` : undefined,
+      ]
+        .filter(Boolean)
+        .join(' > ') || 'document'
+    );
+  }
+
+  private getOrigin(url: string): string | undefined {
+    try {
+      return new URL(url).origin;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Find the landing page links among the links extracted from a page
+   * Every anchor accepted by the match policy is reported, the primary one (see selectPrimaryOccurrence)
+   * sets the link status. Without any, the best same-domain link is reported.
+   * With resolveRedirects, redirecting anchors and the landing page are matched on their final destination
+   */
+  private async matchLinks(
+    linksData: ExtractedLink[],
+    url: string,
+    landingPage: string | undefined,
+    matchPolicy: UrlMatchPolicy,
+    resolveRedirects: boolean,
+    viewportHeight: number = 1080,
+  ): Promise<Partial<ScrapedNetlinkData>> {
+    this.logger.debug(`Found ${linksData.length} links on page ${url}`);
+
+    const outboundLinks = this.outboundLinkProfile.analyze(
+      linksData,
+      url,
+      landingPage ? [landingPage] : [],
+    );
+    if (outboundLinks.linkFarm) {
+      this.logger.warn(
+        `Link farm suspected: ${outboundLinks.linkFarmSignals.join(', ')} (${outboundLinks.externalDomains} external domains)`,
+      );
+    }
+    if (outboundLinks.toxicLinks.length > 0) {
+      this.logger.warn(
+        `Toxic outbound links: ${this.formatToxicCategories(outboundLinks)}`,
+      );
+    }
+
+    // If no landing page provided, return all links
+    if (!landingPage) {
+      return {
+        allLinksCount: linksData.length,
+        outboundLinks,
+        foundLink: undefined,
+      };
+    }
+
+    // A landing page that was 301'd since the order is matched under both URLs
+    const landingTargets = [landingPage];
+    let landingPageRedirect: RedirectChain | undefined;
+    if (resolveRedirects) {
+      const chain = await this.redirectResolver.resolve(landingPage, {
+        followQueryParams: false,
+      });
+      if (this.isResolvedRedirect(chain)) {
+        landingPageRedirect = chain;
+        landingTargets.push(chain.finalUrl);
+        this.logger.log(
+          `Landing page ${landingPage} redirects to ${chain.finalUrl}`,
+        );
+      }
+    }
+
+    const matchLanding = (href: string): UrlMatchResult =>
+      landingTargets
+        .map((target) => this.urlMatcher.match(href, target, matchPolicy))
+        .reduce((best, match) => (match.score > best.score ? match : best));
+
+    // Score every link against the landing page, keeping the first link on ties
+    const occurrences: NetlinkLinkOccurrence[] = [];
+    let bestDomain:
+      | { link: ExtractedLink; match: UrlMatchResult; redirect?: RedirectChain }
+      | undefined;
+    let redirectCandidates = 0;
+
+    for (const link of linksData) {
+      let match = matchLanding(link.href);
+      let redirect: RedirectChain | undefined;
+
+      // Shorteners, tracking and /go/ redirects only reveal the client URL once resolved
+      if (
+        !match.matched &&
+        resolveRedirects &&
+        redirectCandidates < MAX_REDIRECT_CANDIDATES_PER_PAGE &&
+        isRedirectCandidate(link.href)
+      ) {
+        redirectCandidates++;
+        const chain = await this.redirectResolver.resolve(link.href);
+        if (this.isResolvedRedirect(chain)) {
+          const resolved = matchLanding(chain.finalUrl);
+          if (resolved.score > match.score) {
+            match = resolved;
+            redirect = chain;
+          }
+        }
+      }
+
+      if (match.matched) {
+        const relAttributes = this.parseRelAttribute(link.rel);
+        occurrences.push({
+          href: link.href,
+          text: link.text,
+          outerHTML: link.outerHTML,
+          image: link.image,
+          rel: link.rel || undefined,
+          relAttributes,
+          link_type: this.getLinkType(relAttributes),
+          placement: this.classifyLinkPlacement(link, viewportHeight),
+          matchType: match.matchType,
+          matchScore: match.score,
+          resolvedHref: redirect?.finalUrl,
+          redirectChain: redirect ? this.getChainUrls(redirect) : undefined,
+          visibility: link.visibility,
+          source: link.source,
+        });
+      } else if (
+        match.score >= URL_MATCH_SCORES.domain &&
+        (!bestDomain || match.score > bestDomain.match.score)
+      ) {
+        bestDomain = { link, match, redirect };
+      }
+    }
+
+    if (occurrences.length > 0) {
+      const primary = this.selectPrimaryOccurrence(occurrences);
+      this.logger.log(
+        `✓ Found matching link: ${primary.href} (${primary.matchType} match, score ${primary.matchScore}, ${matchPolicy} policy)`,
+      );
+      if (primary.redirectChain) {
+        this.logger.log(`  Redirects: ${primary.redirectChain.join(' -> ')}`);
+      }
+      this.logger.log(
+        `  Link type: ${primary.link_type} (rel="${primary.rel || 'none'}")`,
+      );
+      this.logger.log(
+        `  Placement: ${primary.placement.placement}${primary.placement.aboveTheFold ? ' (above the fold)' : ''}`,
+      );
+      if (primary.visibility && !primary.visibility.visible) {
+        this.logger.warn(
+          `  Hidden link: ${primary.visibility.reasons.join(', ')}`,
+        );
+      }
+      if (primary.source && primary.source.context !== 'document') {
+        this.logger.log(
+          `  Found in: ${this.describeLinkSource(primary.source)}`,
+        );
+      }
+      if (primary.image) {
+        this.logger.log(
+          `  Image link: ${primary.image.kind} alt="${primary.image.alt}"${primary.image.src ? ` src=${primary.image.src}` : ''}`,
+        );
+      }
+      if (occurrences.length > 1) {
+        this.logger.log(
+          `  Occurrences: ${occurrences.length} (${occurrences.map((o) => `${o.link_type}/${o.placement?.placement || 'unknown'}`).join(', ')})`,
+        );
+      }
+
+      return {
+        allLinksCount: linksData.length,
+        outboundLinks,
+        landingPageRedirect,
+        foundLink: {
+          href: primary.href,
+          text: primary.text,
+          outerHTML: primary.outerHTML,
+          matched: true,
+          matchType: primary.matchType,
+          matchScore: primary.matchScore,
+          matchPolicy,
+          resolvedHref: primary.resolvedHref,
+          redirectChain: primary.redirectChain,
+          visibility: primary.visibility,
+          source: primary.source,
+          image: primary.image,
+          rel: primary.rel,
+          relAttributes: primary.relAttributes,
+          link_type: primary.link_type,
+          placement: primary.placement,
+        },
+        linkOccurrences: occurrences,
+      };
+    }
+
+    // No link accepted by the policy, report a link to another page of the same domain
+    this.logger.warn(
+      `No matching link found for landing page: ${landingPage} (${matchPolicy} policy)`,
+    );
+
+    if (bestDomain) {
+      const { link, match, redirect } = bestDomain;
+      this.logger.log(
+        `✓ Found domain match: ${link.href} (${match.matchType} match, score ${match.score})`,
+      );
+
+      // Determine link_type
+      const relAttributes = this.parseRelAttribute(link.rel);
+      const link_type = this.getLinkType(relAttributes);
+      const placement = this.classifyLinkPlacement(link, viewportHeight);
+
+      this.logger.log(
+        `  Link type: ${link_type} (rel="${link.rel || 'none'}")`,
+      );
+
+      return {
+        allLinksCount: linksData.length,
+        outboundLinks,
+        landingPageRedirect,
+        foundLink: {
+          href: '',
+          text: '',
+          outerHTML: '',
+          matched: false,
+        },
+        domainFound: true,
+        domainFoundLink: {
+          href: link.href,
+          text: link.text,
+          matchType: match.matchType,
+          matchScore: match.score,
+          resolvedHref: redirect?.finalUrl,
+          redirectChain: redirect ? this.getChainUrls(redirect) : undefined,
+          visibility: link.visibility,
+          source: link.source,
+          image: link.image,
+          rel: link.rel || undefined,
+          relAttributes,
+          link_type: link_type,
+          placement,
+        },
+      };
+    }
+
+    // No match at all (not even domain)
+    this.logger.warn(`No domain match found either`);
+
+    return {
+      allLinksCount: linksData.length,
+      outboundLinks,
+      landingPageRedirect,
+      foundLink: {
+        href: '',
+        text: '',
+        outerHTML: '',
+        matched: false,
+      },
+      domainFound: false,
+    };
+  }
+
+  /**
+   * Toxic outbound link counts, e.g. "casino 3, pharma 1"
+   */
+  private formatToxicCategories(profile: OutboundLinkProfile): string {
+    return Object.entries(profile.toxicCategories)
+      .map(([category, count]) => `${category} ${count}`)
+      .join(', ');
+  }
+
+  /**
+   * Whether a redirect chain reached a usable final destination
+   */
+  private isResolvedRedirect(chain: RedirectChain): boolean {
+    return chain.redirected && !chain.error && !chain.hopLimitReached;
+  }
+
+  /**
+   * URLs of a redirect chain, from the original URL to the final destination
+   */
+  private getChainUrls(chain: RedirectChain): string[] {
+    return [...chain.hops.map((hop) => hop.url), chain.finalUrl];
+  }
+
+  /**
+   * Compare link presence between a reader and a Googlebot fetch of the page
+   * Both fetches are raw HTML, so JavaScript rendering differences cannot be mistaken for cloaking.
+   * Returns undefined when there is nothing to compare (failed or blocked check, no landing page)
    */
-  private transformToAdditionalInfo(result: ScrapedNetlinkData): NetlinkAdditionalInfo | null {
-    // Skip if no netlinkId
-    if (!result.netlinkId) {
-      this.logger.warn(`Skipping result without netlinkId: ${result.url}`);
-      return null;
+  private async checkCloaking(
+    result: ScrapedNetlinkData,
+    matchPolicy: UrlMatchPolicy,
+    timeout: number,
+  ): Promise<CloakingCheck | undefined> {
+    if (!result.success || result.errorCategory || !result.landingPage) {
+      return undefined;
     }
 
-    // Determine link_type from the foundLink or domainFoundLink
-    let link_type = 'unknown'; // Default to unknown
+    const inconclusive = (reason: string): CloakingCheck => ({
+      checked: false,
+      cloaked: false,
+      reason,
+    });
 
-    if (result.success && result.foundLink?.matched && result.foundLink?.link_type) {
-      // Exact match found
-      link_type = result.foundLink.link_type;
-    } else if (result.success && result.domainFound && result.domainFoundLink?.link_type) {
-      // Domain match found
-      link_type = result.domainFoundLink.link_type;
+    let userPage: HttpPageResult;
+    let botPage: HttpPageResult;
+    try {
+      // One request at a time, the worker holds a single per-host slot
+      userPage = await this.httpPage.fetchPage(result.url, { timeout });
+      botPage = await this.httpPage.fetchPage(result.url, {
+        timeout,
+        headers: { 'User-Agent': GOOGLEBOT_USER_AGENT },
+      });
+    } catch (error) {
+      return inconclusive(`Fetch failed: ${error.message}`);
     }
 
-    // Determine online_status
-    // 1 = exact link found & accessible (success with matched link)
-    // 2 = no matching link found at all (success but no link or domain found)
-    // 3 = site not accessible/offline (failed to scrape)
-    // 4 = domain found but not exact URL (success with domain match only)
-    let online_status: number;
+    // Unverified Googlebot user agents are often blocked by WAFs, which is not cloaking
+    for (const [label, page] of [
+      ['reader', userPage],
+      ['Googlebot', botPage],
+    ] as const) {
+      if (page.statusCode >= 400) {
+        return inconclusive(`${label} fetch returned HTTP ${page.statusCode}`);
+      }
+      const challenge = detectBotChallenge({
+        statusCode: page.statusCode,
+        headers: page.headers,
+        title: page.html.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1],
+        html: page.html,
+        textLength: this.httpPage.toText(page.html).length,
+      });
+      if (challenge) {
+        return inconclusive(`${label} fetch blocked by ${challenge.provider}`);
+      }
+    }
 
-    if (!result.success) {
-      // Site is not accessible or failed to scrape
-      online_status = 3;
-    } else if (result.foundLink?.matched === true) {
-      // Site is accessible and exact matching link found
-      online_status = 1;
-    } else if (result.domainFound === true) {
-      // Site is accessible and domain found but not exact URL
-      online_status = 4;
-    } else {
-      // Site is accessible but no matching link or domain found
-      online_status = 2;
+    const userLinks = this.httpPage.extractLinks(
+      userPage.html,
+      userPage.finalUrl,
+    );
+    const botLinks = this.httpPage.extractLinks(botPage.html, botPage.finalUrl);
+    if (
+      this.httpPage.looksJavaScriptRendered(userPage.html, userLinks.length) ||
+      this.httpPage.looksJavaScriptRendered(botPage.html, botLinks.length)
+    ) {
+      return inconclusive('Page is JavaScript-rendered');
     }
 
-    // Build the additional info object
-    const additionalInfo: NetlinkAdditionalInfo = {
-      netlink_id: Number(result.netlinkId),
-      link_type,
-      online_status,
-    };
+    const landingTargets = [
+      result.landingPage,
+      result.landingPageRedirect?.finalUrl,
+    ].filter(Boolean);
+    const hasLink = (links: ExtractedLink[]) =>
+      links.some((link) =>
+        landingTargets.some(
+          (target) =>
+            this.urlMatcher.match(link.href, target, matchPolicy).matched,
+        ),
+      );
 
-    // Add status code if available
-    if (result.statusCode !== undefined) {
-      additionalInfo.status_code = result.statusCode;
+    const linkPresentForUser = hasLink(userLinks);
+    const linkPresentForBot = hasLink(botLinks);
+    const type: CloakingType | undefined =
+      linkPresentForUser && !linkPresentForBot
+        ? 'hidden_from_bots'
+        : !linkPresentForUser && linkPresentForBot
+          ? 'bot_only'
+          : undefined;
+
+    if (type) {
+      this.logger.warn(`Cloaking detected on ${result.url}: ${type}`);
     }
 
+    return {
+      checked: true,
+      cloaked: type !== undefined,
+      type,
+      linkPresentForUser,
+      linkPresentForBot,
+      botStatusCode: botPage.statusCode,
+    };
+  }
 
-    return additionalInfo;
+  /**
+   * Pick the occurrence that sets the overall link status
+   * The link is hidden only when no occurrence is visible, and counts as dofollow when any visible
+   * occurrence is followed (a followed anchor passes equity even if another one is nofollow).
+   * Then in-content placements beat boilerplate (author box, footer...), then the highest
+   * match score, then DOM order
+   */
+  private selectPrimaryOccurrence(
+    occurrences: NetlinkLinkOccurrence[],
+  ): NetlinkLinkOccurrence {
+    const rank = (occurrence: NetlinkLinkOccurrence): number[] => [
+      occurrence.visibility?.visible === false ? 0 : 1,
+      occurrence.link_type === 'dofollow' ? 1 : 0,
+      occurrence.placement?.placement === 'content' ? 1 : 0,
+      occurrence.matchScore,
+    ];
+
+    return occurrences.reduce((primary, occurrence) => {
+      const primaryRank = rank(primary);
+      const occurrenceRank = rank(occurrence);
+      const index = occurrenceRank.findIndex(
+        (value, i) => value !== primaryRank[i],
+      );
+      return index >= 0 && occurrenceRank[index] > primaryRank[index]
+        ? occurrence
+        : primary;
+    });
   }
 
   /**
-   * Post batch results to the upsert endpoint
+   * Detect a bot challenge on a page opened in the browser
+   * JS challenges (e.g. Cloudflare "Just a moment...") often clear themselves,
+   * so a detected challenge is re-checked once after a short wait
    */
-  async postBatchResults(results: ScrapedNetlinkData[]): Promise<void> {
-    try {
-      // Transform results to additional info format
-      const items: NetlinkAdditionalInfo[] = results
-        .map(result => this.transformToAdditionalInfo(result))
-        .filter((item): item is NetlinkAdditionalInfo => item !== null);
+  private async detectPageChallenge(
+    page: Page,
+    statusCode?: number,
+    headers?: Record<string, string>,
+  ): Promise<BotChallengeDetection | null> {
+    const inspect = async (withResponse: boolean) => {
+      const html = await page.content();
+      const textLength = await page.evaluate(
+        () => document.body?.innerText?.trim().length || 0,
+      );
+      return detectBotChallenge({
+        statusCode: withResponse ? statusCode : undefined,
+        headers: withResponse ? headers : undefined,
+        title: await page.title(),
+        html,
+        textLength,
+      });
+    };
 
-      if (items.length === 0) {
-        this.logger.warn('No valid items to upsert');
-        return;
-      }
+    const challenge = await inspect(true);
+    if (!challenge || challenge.kind !== 'challenge') {
+      return challenge;
+    }
 
-      const requestBody: BatchUpsertRequest = { items };
+    this.logger.debug(
+      `${challenge.provider} challenge detected on ${page.url()}, waiting for it to clear...`,
+    );
+    await page.waitForTimeout(8000);
 
-      this.logger.log(`Posting ${items.length} items to /netlink/additionalInfo/upsert`);
-      this.logger.debug(`Request body: ${JSON.stringify(requestBody, null, 2)}`);
+    // The original response status/headers belong to the challenge page, only re-check the content
+    const remaining = await inspect(false);
+    return remaining
+      ? { ...remaining, statusCode: challenge.statusCode }
+      : null;
+  }
 
-      // Post to the endpoint
-      const response = await this.dashboardClient.post(
-        '/netlink/additionalInfo/upsert',
-        requestBody
-      );
+  /**
+   * Detect a parking or domain-for-sale page opened in the browser
+   */
+  private async detectParkedPage(
+    page: Page,
+    url: string,
+    html: string,
+  ): Promise<ParkedDomainDetection | null> {
+    const parked = detectParkedDomain({
+      url,
+      finalUrl: page.url(),
+      title: await page.title(),
+      html,
+      textLength: await page.evaluate(
+        () => document.body?.innerText?.trim().length || 0,
+      ),
+    });
+    if (parked) {
+      this.logger.warn(`Parked domain (${parked.provider}) on ${url}`);
+    }
+    return parked;
+  }
 
-      this.logger.log(`✓ Batch upsert successful: ${JSON.stringify(response)}`);
+  /**
+   * Audit page indexability, an audit failure never fails the netlink check
+   */
+  private async auditIndexability(
+    pageUrl: string,
+    html: string,
+    headers?: Record<string, string>,
+  ): Promise<IndexabilityAudit | undefined> {
+    try {
+      return await this.indexabilityService.audit(pageUrl, html, headers);
     } catch (error) {
-      this.logger.error(`Failed to post batch results: ${error.message}`);
-      if (error.response) {
-        this.logger.error(`Response data: ${JSON.stringify(error.response.data)}`);
-      }
-      throw error;
+      this.logger.warn(
+        `Indexability audit failed for ${pageUrl}: ${error.message}`,
+      );
+      return undefined;
     }
   }
 
   /**
-   * Helper function to normalize URL for comparison
+   * Detect sponsored disclosures, a detection failure never fails the netlink check
    */
-  private normalizeUrl(url: string): string {
+  private detectSponsoredDisclosure(
+    url: string,
+    html: string,
+  ): SponsoredDisclosure | undefined {
     try {
-      let normalized = url.toLowerCase().trim();
-
-      // Remove protocol
-      normalized = normalized.replace(/^https?:\/\//, '');
-      // Remove www.
-      normalized = normalized.replace(/^www\./, '');
-      // Remove trailing slash
-      normalized = normalized.replace(/\/$/, '');
-      // Remove query params and hash
-      normalized = normalized.split('?')[0].split('#')[0];
-
-      return normalized;
+      const disclosure = this.sponsoredDisclosureService.detect(html, url);
+      if (disclosure.disclosed) {
+        this.logger.log(
+          `Sponsored disclosure on ${url}: ${disclosure.matches.map((m) => `${m.source} "${m.value}"`).join(', ')}`,
+        );
+      }
+      return disclosure;
     } catch (error) {
-      return url.toLowerCase().trim();
+      this.logger.warn(
+        `Sponsored disclosure detection failed for ${url}: ${error.message}`,
+      );
+      return undefined;
     }
   }
 
   /**
-   * Check if a link URL matches the landing page URL
+   * Extract the delivered article, an extraction failure never fails the netlink check
    */
-  private doesUrlMatch(linkHref: string, landingPage: string): { matched: boolean; matchType?: 'exact' | 'domain' | 'subdomain' | 'partial' } {
-    if (!linkHref || !landingPage) {
-      return { matched: false };
+  private extractArticle(url: string, html: string): ArticleInfo | undefined {
+    try {
+      return this.articleExtractor.extract(html);
+    } catch (error) {
+      this.logger.warn(
+        `Article extraction failed for ${url}: ${error.message}`,
+      );
+      return undefined;
     }
+  }
 
-    const normalizedLink = this.normalizeUrl(linkHref);
-    const normalizedLanding = this.normalizeUrl(landingPage);
-
-    // Exact match
-    if (normalizedLink === normalizedLanding) {
-      return { matched: true, matchType: 'exact' };
+  /**
+   * Compare the delivered article with the word count promised in the order (articles_words)
+   */
+  private checkArticleOrder(
+    result: ScrapedNetlinkData,
+    netlink: NetlinkItem,
+  ): void {
+    const orderedWordCount = Number(netlink.articles_words);
+    if (!result.article || !orderedWordCount) return;
+
+    result.article = this.articleExtractor.compareWithOrder(
+      result.article,
+      orderedWordCount,
+    );
+    if (result.article.wordCountMet === false) {
+      this.logger.warn(
+        `Article shorter than ordered on ${result.url}: ${result.article.wordCount}/${orderedWordCount} words`,
+      );
     }
+  }
 
-    // Link contains the landing page (e.g., landing is a subdirectory)
-    if (normalizedLink.includes(normalizedLanding)) {
-      return { matched: true, matchType: 'domain' };
-    }
+  /**
+   * Screenshot the anchor with its surrounding block, highlighted
+   * Returns undefined when the anchor is not visible
+   */
+  private async captureLinkScreenshot(
+    page: Page,
+    href: string,
+  ): Promise<Buffer | undefined> {
+    const margin = 40;
+    const minHeight = 120;
 
-    // Landing contains the link (e.g., link is shorter/partial)
-    if (normalizedLanding.includes(normalizedLink)) {
-      return { matched: true, matchType: 'subdomain' };
-    }
+    try {
+      const box = await page.evaluate((targetHref) => {
+        const anchor = Array.from(document.querySelectorAll('a')).find(
+          (a) => a.href === targetHref,
+        );
+        if (!anchor) return null;
+
+        anchor.scrollIntoView({ block: 'center', inline: 'nearest' });
+        anchor.style.outline = '3px solid #e53935';
+        anchor.style.outlineOffset = '2px';
+        anchor.style.backgroundColor = 'rgba(255, 235, 59, 0.6)';
+
+        // Surrounding context: the enclosing text block
+        const context =
+          anchor.closest(
+            'p, li, blockquote, td, figcaption, h1, h2, h3, h4, h5, h6',
+          ) ||
+          anchor.parentElement ||
+          anchor;
+        const anchorRect = anchor.getBoundingClientRect();
+        const rect = context.getBoundingClientRect();
 
-    // Extract domain and path separately for more flexible matching
-    const getLandingDomain = (url: string) => {
-      return url.split('/')[0];
-    };
+        return {
+          visible: anchorRect.width > 0 && anchorRect.height > 0,
+          x: rect.left,
+          y: rect.top,
+          width: rect.width,
+          height: rect.height,
+          viewportWidth: window.innerWidth,
+          viewportHeight: window.innerHeight,
+        };
+      }, href);
 
-    const getPath = (url: string) => {
-      const parts = url.split('/');
-      return parts.slice(1).join('/');
-    };
+      if (!box?.visible) {
+        return undefined;
+      }
 
-    const linkDomain = getLandingDomain(normalizedLink);
-    const landingDomain = getLandingDomain(normalizedLanding);
-    const linkPath = getPath(normalizedLink);
-    const landingPath = getPath(normalizedLanding);
+      // Let the scroll settle before capturing
+      await page.waitForTimeout(300);
+
+      const x = Math.max(0, box.x - margin);
+      const y = Math.max(0, box.y - margin);
+      const clip = {
+        x,
+        y,
+        width: Math.min(box.viewportWidth - x, box.width + margin * 2),
+        height: Math.min(
+          box.viewportHeight - y,
+          Math.max(box.height + margin * 2, minHeight),
+        ),
+      };
 
-    // Same domain check
-    if (linkDomain === landingDomain) {
-      // If domains match, check if paths are similar
-      if (linkPath === landingPath) {
-        return { matched: true, matchType: 'exact' };
+      if (clip.width <= 0 || clip.height <= 0) {
+        return undefined;
       }
-      // Check if one path contains the other
-      if (linkPath && landingPath && (linkPath.includes(landingPath) || landingPath.includes(linkPath))) {
-        return { matched: true, matchType: 'partial' };
-      }
-      // If paths don't match but domains do, still consider it a domain match
-      if (linkPath && landingPath) {
-        return { matched: true, matchType: 'domain' };
-      }
-    }
 
-    // Check if link domain is part of landing domain or vice versa
-    // (handles subdomains like blog.example.com vs example.com)
-    if (linkDomain.includes(landingDomain) || landingDomain.includes(linkDomain)) {
-      return { matched: true, matchType: 'subdomain' };
+      return await page.screenshot({ clip, type: 'png', timeout: 10000 });
+    } catch (error) {
+      this.logger.warn(
+        `Failed to screenshot link on ${page.url()}: ${error.message}`,
+      );
+      return undefined;
     }
-
-    return { matched: false };
   }
 
   /**
-   * Extract data from a page - Find <a> tag containing landing_page URL
+   * Build the result for a page blocked by a bot challenge
    */
-  private async extractData(page: Page, url: string, landingPage?: string): Promise<Partial<ScrapedNetlinkData>> {
-    try {
-      // Wait for page to load
-      await page.waitForSelector('body', { timeout: 5000 });
+  private toBlockedResult(
+    challenge: BotChallengeDetection,
+  ): Partial<ScrapedNetlinkData> {
+    return {
+      success: false,
+      error: `Blocked by ${challenge.provider} ${challenge.kind}`,
+      errorCategory: 'bot_challenge',
+      statusCode: challenge.statusCode,
+      botChallenge: challenge,
+    };
+  }
 
-      // Wait a bit for dynamic content to load
-      await page.waitForTimeout(2000);
+  /**
+   * Build the result for a parked or expired domain
+   */
+  private toParkedResult(
+    parked: ParkedDomainDetection,
+  ): Partial<ScrapedNetlinkData> {
+    return {
+      success: false,
+      error: `Domain parked (${parked.provider})`,
+      errorCategory: 'parked_domain',
+      parkedDomain: parked,
+    };
+  }
 
-      // Get all links from the page with rel attribute
-      const linksData = await page.evaluate(() => {
-        const links = Array.from(document.querySelectorAll('a'));
-        return links.map(link => ({
-          href: link.href,
-          text: link.textContent?.trim() || '',
-          outerHTML: link.outerHTML,
-          rel: link.getAttribute('rel') || '',
-        }));
+  /**
+   * Try to verify the link with a plain HTTP fetch (no browser)
+   * Returns the extracted data, or the reason the browser is needed
+   */
+  private async tryHttpFastPath(
+    url: string,
+    landingPage: string | undefined,
+    timeout: number,
+    captureHtml: boolean,
+    matchPolicy: UrlMatchPolicy,
+    resolveRedirects: boolean,
+  ): Promise<{ data?: Partial<ScrapedNetlinkData>; fallbackReason?: string }> {
+    try {
+      const page = await this.httpPage.fetchPage(url, { timeout });
+
+      const challenge = detectBotChallenge({
+        statusCode: page.statusCode,
+        headers: page.headers,
+        title: page.html.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1],
+        html: page.html,
+        textLength: this.httpPage.toText(page.html).length,
       });
-
-      this.logger.debug(`Found ${linksData.length} links on page ${url}`);
-
-      // If no landing page provided, return all links
-      if (!landingPage) {
+      if (challenge) {
         return {
-          allLinksCount: linksData.length,
-          foundLink: undefined,
+          fallbackReason: `Bot challenge detected (${challenge.provider})`,
         };
       }
 
-      // Find matching link
-      for (const link of linksData) {
-        const matchResult = this.doesUrlMatch(link.href, landingPage);
-
-        if (matchResult.matched) {
-          this.logger.log(`✓ Found matching link: ${link.href} (${matchResult.matchType} match)`);
-
-          // Determine link_type based on rel attribute
-          // Rule: If rel contains "nofollow" in any combination -> nofollow
-          //       Otherwise (no rel or rel without nofollow) -> dofollow
-          let link_type = 'dofollow'; // Default
-
-          if (link.rel && link.rel.toLowerCase().includes('nofollow')) {
-            link_type = 'nofollow';
-          }
-
-          this.logger.log(`  Link type: ${link_type} (rel="${link.rel || 'none'}")`);
-
-          return {
-            allLinksCount: linksData.length,
-            foundLink: {
-              href: link.href,
-              text: link.text,
-              outerHTML: link.outerHTML,
-              matched: true,
-              matchType: matchResult.matchType,
-              rel: link.rel || undefined,
-              link_type: link_type,
-            },
-          };
-        }
+      if (page.statusCode >= 400) {
+        return { fallbackReason: `HTTP ${page.statusCode}` };
       }
 
-      // No exact matching link found, check for domain-only match
-      this.logger.warn(`No exact matching link found for landing page: ${landingPage}`);
-      this.logger.log(`Checking for domain-only matches...`);
-
-      // Extract domain from landing page
-      const getLandingDomain = (url: string) => {
-        const normalized = this.normalizeUrl(url);
-        return normalized.split('/')[0];
-      };
-
-      const landingDomain = getLandingDomain(landingPage);
-      this.logger.debug(`Landing page domain: ${landingDomain}`);
-
-      // Check if any link has the same domain
-      for (const link of linksData) {
-        const linkDomain = getLandingDomain(link.href);
-
-        if (linkDomain === landingDomain) {
-          this.logger.log(`✓ Found domain match: ${link.href}`);
+      if (!page.contentType.includes('html')) {
+        return {
+          fallbackReason: `Non-HTML content (${page.contentType || 'unknown'})`,
+        };
+      }
 
-          // Determine link_type
-          let link_type = 'dofollow';
-          if (link.rel && link.rel.toLowerCase().includes('nofollow')) {
-            link_type = 'nofollow';
-          }
+      const linksData = this.httpPage.extractLinks(page.html, page.finalUrl);
+
+      // Parking pages are sparse and script-driven, detect them before handing sparse pages to the browser
+      const parked = landingPage
+        ? detectParkedDomain({
+            url,
+            finalUrl: page.finalUrl,
+            title: page.html.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1],
+            html: page.html,
+            textLength: this.httpPage.toText(page.html).length,
+          })
+        : null;
+
+      if (
+        !parked &&
+        this.httpPage.looksJavaScriptRendered(page.html, linksData.length)
+      ) {
+        return { fallbackReason: 'Page looks JavaScript-rendered' };
+      }
 
-          this.logger.log(`  Link type: ${link_type} (rel="${link.rel || 'none'}")`);
+      const extractedData = await this.matchLinks(
+        linksData,
+        url,
+        landingPage,
+        matchPolicy,
+        resolveRedirects,
+      );
 
-          return {
-            allLinksCount: linksData.length,
-            foundLink: {
-              href: '',
-              text: '',
-              outerHTML: '',
-              matched: false,
-            },
-            domainFound: true,
-            domainFoundLink: {
-              href: link.href,
-              text: link.text,
-              rel: link.rel || undefined,
-              link_type: link_type,
-            },
-          };
-        }
+      // A parking page is conclusive, the browser would not find the link either
+      if (parked && !extractedData.foundLink?.matched) {
+        this.logger.warn(`Parked domain (${parked.provider}) on ${url}`);
+        return {
+          data: { statusCode: page.statusCode, ...this.toParkedResult(parked) },
+        };
       }
 
-      // No match at all (not even domain)
-      this.logger.warn(`No domain match found either`);
+      // Only a verified link is trusted, anything else is re-checked in the browser
+      if (landingPage && !extractedData.foundLink?.matched) {
+        return { fallbackReason: 'Link not found in raw HTML' };
+      }
 
       return {
-        allLinksCount: linksData.length,
-        foundLink: {
-          href: '',
-          text: '',
-          outerHTML: '',
-          matched: false,
+        data: {
+          ...extractedData,
+          statusCode: page.statusCode,
+          indexability: await this.auditIndexability(
+            page.finalUrl,
+            page.html,
+            page.headers,
+          ),
+          sponsoredDisclosure: this.detectSponsoredDisclosure(url, page.html),
+          article: this.extractArticle(url, page.html),
+          pageHtml: captureHtml ? page.html : undefined,
         },
-        domainFound: false,
       };
-
     } catch (error) {
-      this.logger.error(`Error extracting data from ${url}: ${error.message}`);
-      throw error;
+      return { fallbackReason: `HTTP fetch failed: ${error.message}` };
     }
   }
 
@@ -556,11 +2230,71 @@ export class NetlinkScraperService {
   async scrapeNetlink(
     url: string,
     landingPage?: string,
-    options?: Pick<ScrapeOptions, 'timeout' | 'retries'>
+    options?: Pick<
+      ScrapeOptions,
+      | 'timeout'
+      | 'retries'
+      | 'fastMode'
+      | 'archiveSnapshots'
+      | 'captureScreenshots'
+      | 'matchPolicy'
+      | 'resolveRedirects'
+      | 'detectCloaking'
+    >,
   ): Promise<ScrapedNetlinkData> {
-    const { timeout = 30000, retries = 3 } = options || {};
+    const {
+      timeout = 30000,
+      retries = 3,
+      fastMode = false,
+      archiveSnapshots = false,
+      captureScreenshots = false,
+      matchPolicy = this.urlMatcher.getPolicy(),
+      resolveRedirects = true,
+      detectCloaking = false,
+    } = options || {};
+    const startTime = Date.now();
 
     let lastError: Error;
+    let fastPathFallbackReason: string | undefined;
+
+    // Fast path: plain HTTP fetch, the browser is only used when it cannot verify the link
+    // Screenshots need the rendered page, so they always go through the browser
+    if (fastMode && !captureScreenshots) {
+      const fastPath = await this.tryHttpFastPath(
+        url,
+        landingPage,
+        timeout,
+        archiveSnapshots,
+        matchPolicy,
+        resolveRedirects,
+      );
+
+      if (fastPath.data) {
+        this.logger.debug(`✓ Verified ${url} over HTTP (no browser needed)`);
+        const result: ScrapedNetlinkData = {
+          url,
+          landingPage,
+          scrapedAt: new Date().toISOString(),
+          success: true,
+          fetchMode: 'http',
+          ...fastPath.data,
+        };
+        if (detectCloaking) {
+          result.cloaking = await this.checkCloaking(
+            result,
+            matchPolicy,
+            timeout,
+          );
+        }
+        result.durationMs = Date.now() - startTime;
+        return result;
+      }
+
+      fastPathFallbackReason = fastPath.fallbackReason;
+      this.logger.debug(
+        `HTTP fast path fallback for ${url}: ${fastPathFallbackReason}`,
+      );
+    }
 
     for (let attempt = 1; attempt <= retries; attempt++) {
       try {
@@ -580,12 +2314,75 @@ export class NetlinkScraperService {
             // Get status code from response
             const statusCode = response?.status();
 
+            // Stop here if the page is a bot challenge: a missing link would be a false "link removed"
+            const challenge = await this.detectPageChallenge(
+              page,
+              statusCode,
+              response?.headers(),
+            );
+            if (challenge) {
+              this.logger.warn(
+                `Blocked by ${challenge.provider} ${challenge.kind} on ${url}`,
+              );
+              return this.toBlockedResult(challenge);
+            }
+
+            // Accept the cookie consent wall: some sites only render the article once consent is given
+            const consent = await this.lightpanda.dismissConsentBanners(page);
+
             // Extract data using the extractData method
-            const extractedData = await this.extractData(page, url, landingPage);
+            const extractedData = await this.extractData(
+              page,
+              url,
+              landingPage,
+              matchPolicy,
+              resolveRedirects,
+            );
+
+            // Audit indexability on the rendered DOM (meta robots may be injected by JS)
+            const html = await page.content();
+            const indexability = await this.auditIndexability(
+              page.url(),
+              html,
+              response?.headers(),
+            );
+
+            // An error or parking page without the link is a failed check, not a removed link
+            const linkMissing =
+              !extractedData.foundLink?.matched && !extractedData.domainFound;
+            const parked =
+              landingPage && linkMissing
+                ? await this.detectParkedPage(page, url, html)
+                : null;
+            const failure = parked
+              ? this.toParkedResult(parked)
+              : statusCode >= 400 && linkMissing
+                ? {
+                    success: false,
+                    error: `HTTP ${statusCode}`,
+                    errorCategory: classifyNetlinkError(undefined, statusCode),
+                  }
+                : undefined;
+
+            // Screenshot last: the highlight is applied to the live page
+            const link = extractedData.foundLink?.matched
+              ? extractedData.foundLink
+              : extractedData.domainFoundLink;
+            const screenshotPng =
+              captureScreenshots && link
+                ? await this.captureLinkScreenshot(page, link.href)
+                : undefined;
 
             return {
               ...extractedData,
               statusCode,
+              consent: consent || undefined,
+              indexability,
+              sponsoredDisclosure: this.detectSponsoredDisclosure(url, html),
+              article: this.extractArticle(url, html),
+              pageHtml: archiveSnapshots ? html : undefined,
+              screenshotPng,
+              ...failure,
             };
           } catch (pageError) {
             // Handle CDP session errors that occur during page operations
@@ -598,14 +2395,25 @@ export class NetlinkScraperService {
           }
         });
 
-        // Return successful result
-        return {
+        // Return result (success unless the page was blocked)
+        const result: ScrapedNetlinkData = {
           url,
           landingPage,
           scrapedAt: new Date().toISOString(),
           success: true,
+          fetchMode: 'browser',
+          fastPathFallbackReason,
           ...scrapedData,
         };
+        if (detectCloaking) {
+          result.cloaking = await this.checkCloaking(
+            result,
+            matchPolicy,
+            timeout,
+          );
+        }
+        result.durationMs = Date.now() - startTime;
+        return result;
 
       } catch (error) {
         lastError = error;
@@ -641,10 +2449,59 @@ export class NetlinkScraperService {
       scrapedAt: new Date().toISOString(),
       success: false,
       error: lastError.message,
+      errorCategory: classifyNetlinkError(lastError),
+      fetchMode: 'browser',
+      fastPathFallbackReason,
+      durationMs: Date.now() - startTime,
     };
   }
 
 
+  /**
+   * Count a failed check in the run statistics
+   */
+  private recordError(
+    stats: ScrapingStats,
+    url: string,
+    error: Error,
+    category: NetlinkErrorCategory = classifyNetlinkError(error),
+  ): void {
+    stats.failed++;
+    stats.errors.push({ url, error: error.message, category });
+    stats.errorsByCategory[category] =
+      (stats.errorsByCategory[category] || 0) + 1;
+  }
+
+  /**
+   * Failure counts by category, most frequent first (e.g. "timeout: 4, dns_failure: 1")
+   */
+  private formatErrorCategories(stats: ScrapingStats): string {
+    return Object.entries(stats.errorsByCategory)
+      .sort(([, a], [, b]) => b - a)
+      .map(([category, count]) => `${category}: ${count}`)
+      .join(', ');
+  }
+
+  /**
+   * Log how many results were produced by the HTTP fast path vs the browser
+   */
+  private logFetchModeSummary(results: ScrapedNetlinkData[]): void {
+    const http = results.filter((r) => r.fetchMode === 'http');
+    const browser = results.filter((r) => r.fetchMode === 'browser');
+    if (http.length === 0) return;
+
+    const httpTime = http.reduce((sum, r) => sum + (r.durationMs || 0), 0);
+    const browserTime = browser.reduce(
+      (sum, r) => sum + (r.durationMs || 0),
+      0,
+    );
+
+    this.logger.log(
+      `Fetch modes: ${http.length} via HTTP (${(httpTime / 1000).toFixed(1)}s), ` +
+        `${browser.length} via browser (${(browserTime / 1000).toFixed(1)}s)`,
+    );
+  }
+
   /**
    * Scrape multiple netlinks with concurrency control
    *
@@ -665,6 +2522,17 @@ export class NetlinkScraperService {
       logFilePath,
       enableDomDetailer = false,
       domDetailerConcurrency = 2,
+      fastMode = false,
+      recordHistory = false,
+      runId,
+      perHostConcurrency = 1,
+      perHostDelay = 2000,
+      interleaveHosts = true,
+      archiveSnapshots = false,
+      captureScreenshots = false,
+      matchPolicy,
+      resolveRedirects = true,
+      detectCloaking = false,
       onProgress,
       onSuccess,
       onError,
@@ -680,18 +2548,96 @@ export class NetlinkScraperService {
     this.logger.debug(`Queue initialized with ${netlinks.length} items`);
 
     const results: ScrapedNetlinkData[] = [];
-    const queue = [...netlinks];
-    let completed = 0;
+    let queue = [...netlinks];
+
+    // Resume a checkpointed run: keep its results and skip finished items
+    if (runId) {
+      const run = await this.checkpointService.startRun(runId, netlinks);
+      const finished = new Set(
+        run.results.map((r) => this.checkpointService.getItemKey(r)),
+      );
+      results.push(...run.results);
+      queue = queue.filter(
+        (netlink) => !finished.has(this.checkpointService.getItemKey(netlink)),
+      );
+
+      if (run.resumed) {
+        this.logger.log(
+          `Run ${runId}: ${run.results.length} items restored from checkpoint, ${queue.length} remaining`,
+        );
+      }
+
+      if (queue.length === 0) {
+        await this.checkpointService.updateStatus(runId, 'scraped');
+        if (enableLogging) {
+          await this.finalizeLogging();
+        }
+        return results;
+      }
+    }
+
+    if (interleaveHosts) {
+      queue = this.interleaveByHost(queue);
+    }
+
+    let completed = results.length;
     let activeWorkers = 0;
     const netlinkMap = new Map(netlinks.map(n => [n.url_bought || n.url, n]));
 
+    // Per-host politeness: active requests and last request start per host
+    const hostActive = new Map<string, number>();
+    const hostLastStart = new Map<string, number>();
+
+    /**
+     * Take the next queue item whose host is below its concurrency cap and past its spacing delay.
+     * Waits when every remaining host is busy or cooling down.
+     */
+    const takeNext = async (): Promise<NetlinkItem | undefined> => {
+      while (queue.length > 0) {
+        const now = Date.now();
+        let wait = Infinity;
+
+        for (let i = 0; i < queue.length; i++) {
+          const host = this.getHostKey(this.getNetlinkUrl(queue[i]));
+          if (!host) {
+            return queue.splice(i, 1)[0];
+          }
+
+          const active = hostActive.get(host) || 0;
+          if (active >= perHostConcurrency) continue;
+
+          const nextAllowed = (hostLastStart.get(host) || 0) + perHostDelay;
+          if (nextAllowed <= now) {
+            hostActive.set(host, active + 1);
+            hostLastStart.set(host, now);
+            return queue.splice(i, 1)[0];
+          }
+          wait = Math.min(wait, nextAllowed - now);
+        }
+
+        // Hosts at their cap are released when their request finishes, so poll
+        await new Promise((resolve) =>
+          setTimeout(resolve, Math.min(wait, 250)),
+        );
+      }
+
+      return undefined;
+    };
+
+    const releaseHost = (url: string | undefined) => {
+      const host = this.getHostKey(url);
+      if (host && hostActive.has(host)) {
+        hostActive.set(host, Math.max(0, hostActive.get(host) - 1));
+      }
+    };
+
     return new Promise((resolve, reject) => {
       // No global timeout - rely on per-item timeout (2 minutes per URL)
       // Each item has its own timeout, so workers will complete naturally
 
       const worker = async () => {
         while (queue.length > 0) {
-          const netlink = queue.shift();
+          const netlink = await takeNext();
           if (!netlink) {
             this.logger.debug(`Worker exiting: netlink is undefined, queue.length=${queue.length}`);
             break;
@@ -700,7 +2646,7 @@ export class NetlinkScraperService {
           activeWorkers++;
 
           // Extract URL from netlink - using url_bought field
-          const url = netlink.url_bought || netlink.url || netlink.link || netlink.href;
+          const url = this.getNetlinkUrl(netlink);
           this.logger.debug(`Worker started item #${completed + 1}: activeWorkers=${activeWorkers}, queue.length=${queue.length}, url=${url?.substring(0, 50)}`);
 
           if (!url) {
@@ -715,8 +2661,10 @@ export class NetlinkScraperService {
               onProgress(completed + 1, netlinks.length, url);
             }
 
-            // Extract landing_page from netlink
+            // Extract landing_page from netlink, matched with the contract policy
             const landingPage = netlink.landing_page;
+            const netlinkMatchPolicy =
+              matchPolicy || this.urlMatcher.getPolicy(netlink.contract_id);
 
             // Scrape the netlink with landing_page - with hard timeout protection
             // Maximum time: (timeout * retries) + buffer for retries
@@ -725,7 +2673,16 @@ export class NetlinkScraperService {
             let result: ScrapedNetlinkData;
             try {
               result = await Promise.race([
-                this.scrapeNetlink(url, landingPage, { timeout, retries }),
+                this.scrapeNetlink(url, landingPage, {
+                  timeout,
+                  retries,
+                  fastMode,
+                  archiveSnapshots,
+                  captureScreenshots,
+                  matchPolicy: netlinkMatchPolicy,
+                  resolveRedirects,
+                  detectCloaking,
+                }),
                 new Promise<never>((_, reject) =>
                   setTimeout(() => reject(new Error(`Hard timeout after ${maxTime}ms`)), maxTime)
                 ),
@@ -738,6 +2695,7 @@ export class NetlinkScraperService {
                 scrapedAt: new Date().toISOString(),
                 success: false,
                 error: `Timeout: ${timeoutError.message}`,
+                errorCategory: classifyNetlinkError(timeoutError),
               };
             }
 
@@ -745,8 +2703,29 @@ export class NetlinkScraperService {
             if (netlink.id) {
               result.netlinkId = netlink.id;
             }
+            if (netlink.contract_id) {
+              result.contractId = netlink.contract_id;
+            }
+            this.checkArticleOrder(result, netlink);
+
+            // Archive the page HTML as evidence, never keep it in the results
+            if (archiveSnapshots) {
+              await this.archiveSnapshot(result);
+            }
+            delete result.pageHtml;
+
+            if (result.screenshotPng) {
+              await this.storeScreenshot(result);
+            }
+            delete result.screenshotPng;
+
+            // Record the check and compare with the previous ones
+            if (recordHistory) {
+              result.transitions = await this.recordCheck(result);
+            }
 
             results.push(result);
+            await this.checkpointResult(runId, result);
 
             // Log netlink details if logging is enabled
             if (enableLogging) {
@@ -760,7 +2739,7 @@ export class NetlinkScraperService {
 
             // Error callback
             if (!result.success && onError) {
-              await onError(url, new Error(result.error));
+              await onError(url, new Error(result.error), result.errorCategory);
             }
 
           } catch (error) {
@@ -772,9 +2751,11 @@ export class NetlinkScraperService {
               scrapedAt: new Date().toISOString(),
               success: false,
               error: error.message,
+              errorCategory: classifyNetlinkError(error),
             };
 
             results.push(errorResult);
+            await this.checkpointResult(runId, errorResult);
 
             // Log error details if logging is enabled
             if (enableLogging) {
@@ -785,16 +2766,20 @@ export class NetlinkScraperService {
             }
 
             if (onError) {
-              await onError(url, error);
+              await onError(url, error, errorResult.errorCategory);
             }
 
             if (!skipErrors) {
+              releaseHost(url);
               activeWorkers--; // Decrement before rejecting
               reject(error);
               return;
             }
           }
 
+          // Free the host slot for other workers
+          releaseHost(url);
+
           // Increment completed count AFTER processing
           completed++;
 
@@ -809,6 +2794,11 @@ export class NetlinkScraperService {
           // Check if all work is done (check inside loop too, not just after)
           if (activeWorkers === 0 && queue.length === 0) {
             this.logger.log(`✓ All workers finished! Resolving with ${results.length} results`);
+            this.logFetchModeSummary(results);
+
+            if (runId) {
+              await this.checkpointService.updateStatus(runId, 'scraped');
+            }
 
             if (enableLogging) {
               await this.finalizeLogging();
@@ -820,6 +2810,11 @@ export class NetlinkScraperService {
 
         // Double-check after loop exits (shouldn't be needed, but just in case)
         if (activeWorkers === 0 && queue.length === 0) {
+          this.logFetchModeSummary(results);
+
+          if (runId) {
+            await this.checkpointService.updateStatus(runId, 'scraped');
+          }
 
           // Finalize logging if enabled
           if (enableLogging) {
@@ -830,7 +2825,7 @@ export class NetlinkScraperService {
       };
 
       // Start workers
-      const workerCount = Math.min(concurrency, netlinks.length);
+      const workerCount = Math.min(concurrency, queue.length);
       for (let i = 0; i < workerCount; i++) {
         worker().catch(reject);
       }
@@ -853,6 +2848,7 @@ export class NetlinkScraperService {
       duration: 0,
       startTime,
       errors: [],
+      errorsByCategory: {},
     };
 
     try {
@@ -908,11 +2904,10 @@ export class NetlinkScraperService {
             await options.onSuccess(data);
           }
         },
-        onError: async (url, error) => {
-          stats.failed++;
-          stats.errors.push({ url, error: error.message });
+        onError: async (url, error, category) => {
+          this.recordError(stats, url, error, category);
           if (options?.onError) {
-            await options.onError(url, error);
+            await options.onError(url, error, category);
           }
         },
       });
@@ -927,6 +2922,11 @@ export class NetlinkScraperService {
       this.logger.log(`Total: ${stats.total}`);
       this.logger.log(`Successful: ${stats.successful}`);
       this.logger.log(`Failed: ${stats.failed}`);
+      if (stats.failed > 0) {
+        this.logger.log(
+          `Failures by category: ${this.formatErrorCategories(stats)}`,
+        );
+      }
       this.logger.log(`Duration: ${(stats.duration / 1000).toFixed(2)}s`);
       this.logger.log('='.repeat(60));
 
@@ -957,6 +2957,7 @@ export class NetlinkScraperService {
       duration: 0,
       startTime,
       errors: [],
+      errorsByCategory: {},
     };
 
     try {
@@ -990,11 +2991,10 @@ export class NetlinkScraperService {
             await options.onSuccess(data);
           }
         },
-        onError: async (url, error) => {
-          stats.failed++;
-          stats.errors.push({ url, error: error.message });
+        onError: async (url, error, category) => {
+          this.recordError(stats, url, error, category);
           if (options?.onError) {
-            await options.onError(url, error);
+            await options.onError(url, error, category);
           }
         },
       });
@@ -1008,6 +3008,11 @@ export class NetlinkScraperService {
       this.logger.log(`Total: ${stats.total}`);
       this.logger.log(`Successful: ${stats.successful}`);
       this.logger.log(`Failed: ${stats.failed}`);
+      if (stats.failed > 0) {
+        this.logger.log(
+          `Failures by category: ${this.formatErrorCategories(stats)}`,
+        );
+      }
       this.logger.log(`Duration: ${(stats.duration / 1000).toFixed(2)}s`);
       this.logger.log('='.repeat(60));
 
@@ -1038,6 +3043,7 @@ export class NetlinkScraperService {
       duration: 0,
       startTime,
       errors: [],
+      errorsByCategory: {},
     };
 
     try {
@@ -1061,10 +3067,9 @@ export class NetlinkScraperService {
               stats.successful++;
               if (options?.onSuccess) options.onSuccess(data);
             },
-            onError: (url, error) => {
-              stats.failed++;
-              stats.errors.push({ url, error: error.message });
-              if (options?.onError) options.onError(url, error);
+            onError: (url, error, category) => {
+              this.recordError(stats, url, error, category);
+              if (options?.onError) options.onError(url, error, category);
             },
           });
 
@@ -1087,6 +3092,11 @@ export class NetlinkScraperService {
       this.logger.log(`Total: ${stats.total}`);
       this.logger.log(`Successful: ${stats.successful}`);
       this.logger.log(`Failed: ${stats.failed}`);
+      if (stats.failed > 0) {
+        this.logger.log(
+          `Failures by category: ${this.formatErrorCategories(stats)}`,
+        );
+      }
       this.logger.log(`Duration: ${(stats.duration / 1000).toFixed(2)}s`);
       this.logger.log('='.repeat(60));
 
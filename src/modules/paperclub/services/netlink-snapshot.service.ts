@@ -0,0 +1,490 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { promisify } from 'util';
+import * as zlib from 'zlib';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+/**
+ * Archived snapshot of a checked page
+ */
+export interface NetlinkSnapshot {
+  netlinkId: number;
+  url: string;
+  checkedAt: string;
+  contentHash: string; // sha256 of the raw HTML
+  file: string; // Relative to the netlink archive directory (shared by identical snapshots)
+  bytes: number; // Uncompressed size
+  linkPresent: boolean;
+  onlineStatus?: number;
+  linkHref?: string;
+  linkOuterHTML?: string;
+}
+
+/**
+ * Input for archiving a snapshot
+ */
+export type NetlinkSnapshotInput = Omit<
+  NetlinkSnapshot,
+  'contentHash' | 'file' | 'bytes'
+> & { html: string };
+
+/**
+ * A changed region between two snapshots
+ */
+export interface SnapshotDiffHunk {
+  beforeStart: number; // 1-based line numbers in the normalized HTML
+  afterStart: number;
+  lines: Array<{ type: 'context' | 'removed' | 'added'; text: string }>;
+  touchesLink: boolean;
+}
+
+/**
+ * Diff between the last snapshot with the link and the first one without it
+ */
+export interface SnapshotDiff {
+  before: NetlinkSnapshot;
+  after: NetlinkSnapshot;
+  identical: boolean;
+  linkRemoved: boolean; // Anchor markup is gone from the new page
+  linkModified: boolean; // Link region changed but the href is still present
+  hunks: SnapshotDiffHunk[];
+}
+
+/**
+ * Above this number of compared lines, changed regions are not aligned line by line
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Netlink Snapshot Service
+ *
+ * Local archive of the HTML of every checked netlink page, used as evidence
+ * when a vendor disputes a link removal.
+ *
+ * Features:
+ * - Gzip-compressed snapshots with sha256 content hash
+ * - Identical pages share a single file
+ * - Cropped screenshots of the matched anchor for client reporting
+ * - Diff between the last snapshot with the link and the first without it,
+ *   focused on the region around the link
+ *
+ * Environment Variables:
+ * - NETLINK_SNAPSHOTS_DIR: Archive directory (default: data/netlink-snapshots)
+ * - NETLINK_SNAPSHOTS_MAX_CHECKS: Snapshots and anchor screenshots kept per netlink (default: 100)
+ */
+@Injectable()
+export class NetlinkSnapshotService {
+  private readonly logger = new Logger(NetlinkSnapshotService.name);
+  private readonly snapshotsDir: string;
+  private readonly maxChecks: number;
+
+  constructor(private readonly configService: ConfigService) {
+    this.snapshotsDir = path.resolve(
+      this.configService.get<string>(
+        'NETLINK_SNAPSHOTS_DIR',
+        path.join('data', 'netlink-snapshots'),
+      ),
+    );
+    this.maxChecks = Number(
+      this.configService.get<number>('NETLINK_SNAPSHOTS_MAX_CHECKS', 100),
+    );
+  }
+
+  /**
+   * Archive the HTML of a checked page
+   */
+  async save(input: NetlinkSnapshotInput): Promise<NetlinkSnapshot> {
+    const { html, ...meta } = input;
+    const dir = this.getNetlinkDir(meta.netlinkId);
+    await fs.mkdir(dir, { recursive: true });
+
+    const contentHash = crypto.createHash('sha256').update(html).digest('hex');
+    const snapshots = await this.listSnapshots(meta.netlinkId);
+    const existing = snapshots.find((s) => s.contentHash === contentHash);
+
+    let file = existing?.file;
+    if (!file) {
+      const timestamp = meta.checkedAt.replace(/[:.]/g, '-');
+      file = `${timestamp}-${contentHash.slice(0, 12)}.html.gz`;
+      await fs.writeFile(path.join(dir, file), await gzip(html));
+    }
+
+    const snapshot: NetlinkSnapshot = {
+      ...meta,
+      contentHash,
+      file,
+      bytes: Buffer.byteLength(html),
+    };
+
+    snapshots.push(snapshot);
+    const pruned =
+      snapshots.length > this.maxChecks
+        ? snapshots.splice(0, snapshots.length - this.maxChecks)
+        : [];
+    await this.writeIndex(meta.netlinkId, snapshots);
+    await this.removeUnusedFiles(meta.netlinkId, pruned, snapshots);
+
+    this.logger.debug(
+      `Snapshot ${meta.netlinkId} ${contentHash.slice(0, 12)}${existing ? ' (unchanged)' : ''}`,
+    );
+
+    return snapshot;
+  }
+
+  /**
+   * Store a screenshot of the matched anchor and return its file name
+   */
+  async saveScreenshot(
+    netlinkId: number,
+    checkedAt: string,
+    png: Buffer,
+  ): Promise<string> {
+    const dir = this.getNetlinkDir(netlinkId);
+    await fs.mkdir(dir, { recursive: true });
+
+    const file = `${checkedAt.replace(/[:.]/g, '-')}-anchor.png`;
+    await fs.writeFile(path.join(dir, file), png);
+    await this.pruneScreenshots(netlinkId);
+
+    return file;
+  }
+
+  /**
+   * Absolute path of an archived file (snapshot or screenshot) of a netlink
+   */
+  getArchivePath(netlinkId: number, file: string): string {
+    return path.join(this.getNetlinkDir(netlinkId), file);
+  }
+
+  /**
+   * List the snapshots of a netlink (oldest first)
+   */
+  async listSnapshots(netlinkId: number): Promise<NetlinkSnapshot[]> {
+    try {
+      return JSON.parse(
+        await fs.readFile(
+          path.join(this.getNetlinkDir(netlinkId), 'index.json'),
+          'utf-8',
+        ),
+      );
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        this.logger.warn(
+          `Failed to read snapshot index for netlink ${netlinkId}: ${error.message}`,
+        );
+      }
+      return [];
+    }
+  }
+
+  /**
+   * Read the HTML of a snapshot
+   */
+  async readSnapshot(snapshot: NetlinkSnapshot): Promise<string> {
+    const content = await fs.readFile(
+      path.join(this.getNetlinkDir(snapshot.netlinkId), snapshot.file),
+    );
+    return (await gunzip(content)).toString('utf-8');
+  }
+
+  /**
+   * Find the most recent removal: last snapshot with the link and the first one after it without
+   * Only conclusive checks (page loaded) are considered
+   */
+  async findRemovalPair(
+    netlinkId: number,
+  ): Promise<{ before: NetlinkSnapshot; after: NetlinkSnapshot } | undefined> {
+    const snapshots = (await this.listSnapshots(netlinkId)).filter(
+      (s) => s.onlineStatus === undefined || [1, 2, 4].includes(s.onlineStatus),
+    );
+
+    for (let i = snapshots.length - 1; i > 0; i--) {
+      if (!snapshots[i].linkPresent && snapshots[i - 1].linkPresent) {
+        return { before: snapshots[i - 1], after: snapshots[i] };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Diff two snapshots, keeping the hunks around the link when it can be located
+   */
+  async diff(
+    before: NetlinkSnapshot,
+    after: NetlinkSnapshot,
+    contextLines: number = 3,
+  ): Promise<SnapshotDiff> {
+    const result: SnapshotDiff = {
+      before,
+      after,
+      identical: before.contentHash === after.contentHash,
+      linkRemoved: false,
+      linkModified: false,
+      hunks: [],
+    };
+
+    const beforeHtml = await this.readSnapshot(before);
+    const afterHtml = await this.readSnapshot(after);
+    const beforeLines = this.normalizeHtml(beforeHtml);
+    const afterLines = this.normalizeHtml(afterHtml);
+
+    const hunks = this.buildHunks(
+      beforeLines,
+      afterLines,
+      contextLines,
+      (line) => this.isLinkLine(line, before),
+    );
+
+    const linkHunks = hunks.filter((hunk) => hunk.touchesLink);
+    result.hunks = linkHunks.length > 0 ? linkHunks : hunks;
+
+    const markers = this.getLinkMarkers(before);
+    const stillPresent = markers.some((marker) =>
+      afterHtml.toLowerCase().includes(marker),
+    );
+    result.linkRemoved = markers.length > 0 && !stillPresent;
+    result.linkModified = linkHunks.length > 0 && stillPresent;
+
+    return result;
+  }
+
+  /**
+   * Split HTML into one tag or text run per line, so diffs are readable
+   */
+  private normalizeHtml(html: string): string[] {
+    return html
+      .replace(/>\s*</g, '>\n<')
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean);
+  }
+
+  /**
+   * Strings identifying the link markup in a page
+   */
+  private getLinkMarkers(snapshot: NetlinkSnapshot): string[] {
+    const markers: string[] = [];
+
+    if (snapshot.linkHref) {
+      try {
+        const parsed = new URL(snapshot.linkHref);
+        markers.push(
+          `${parsed.host}${parsed.pathname}`.toLowerCase().replace(/\/$/, ''),
+        );
+      } catch {
+        markers.push(snapshot.linkHref.toLowerCase());
+      }
+    }
+
+    return markers.filter(Boolean);
+  }
+
+  private isLinkLine(line: string, snapshot: NetlinkSnapshot): boolean {
+    const lower = line.toLowerCase();
+    return (
+      /<a\b/i.test(line) &&
+      this.getLinkMarkers(snapshot).some((marker) => lower.includes(marker))
+    );
+  }
+
+  /**
+   * Line diff (common prefix/suffix trimming + LCS on the changed middle region)
+   */
+  private buildHunks(
+    a: string[],
+    b: string[],
+    contextLines: number,
+    isLinkLine: (line: string) => boolean,
+  ): SnapshotDiffHunk[] {
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+      prefix++;
+    }
+
+    let suffix = 0;
+    while (
+      suffix < a.length - prefix &&
+      suffix < b.length - prefix &&
+      a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+
+    const middleA = a.slice(prefix, a.length - suffix);
+    const middleB = b.slice(prefix, b.length - suffix);
+    if (middleA.length === 0 && middleB.length === 0) return [];
+
+    // Edit script over the whole page: context / removed / added
+    const ops: Array<{ type: 'context' | 'removed' | 'added'; text: string }> =
+      [
+        ...a
+          .slice(0, prefix)
+          .map((text) => ({ type: 'context' as const, text })),
+        ...this.diffLines(middleA, middleB),
+        ...a
+          .slice(a.length - suffix)
+          .map((text) => ({ type: 'context' as const, text })),
+      ];
+
+    // Group changes into hunks with surrounding context
+    const hunks: SnapshotDiffHunk[] = [];
+    let beforeLine = 1;
+    let afterLine = 1;
+    let current: SnapshotDiffHunk | undefined;
+    let trailingContext = 0;
+
+    ops.forEach((op, index) => {
+      if (op.type !== 'context') {
+        if (!current) {
+          const start = Math.max(0, index - contextLines);
+          const leading = ops.slice(start, index);
+          current = {
+            beforeStart: beforeLine - leading.length,
+            afterStart: afterLine - leading.length,
+            lines: [...leading],
+            touchesLink: false,
+          };
+          hunks.push(current);
+        }
+        current.lines.push(op);
+        current.touchesLink = current.touchesLink || isLinkLine(op.text);
+        trailingContext = 0;
+      } else if (current) {
+        // Keep the hunk open while the next change is close enough to share its context
+        current.lines.push(op);
+        trailingContext++;
+        if (trailingContext > 2 * contextLines) {
+          current.lines.length -= trailingContext - contextLines;
+          current = undefined;
+        }
+      }
+
+      if (op.type !== 'added') beforeLine++;
+      if (op.type !== 'removed') afterLine++;
+    });
+
+    if (current && trailingContext > contextLines) {
+      current.lines.length -= trailingContext - contextLines;
+    }
+
+    return hunks;
+  }
+
+  /**
+   * LCS-based line diff, falling back to remove-all/add-all for very large regions
+   */
+  private diffLines(
+    a: string[],
+    b: string[],
+  ): Array<{ type: 'context' | 'removed' | 'added'; text: string }> {
+    if (a.length * b.length > MAX_LCS_CELLS) {
+      return [
+        ...a.map((text) => ({ type: 'removed' as const, text })),
+        ...b.map((text) => ({ type: 'added' as const, text })),
+      ];
+    }
+
+    // lengths[i][j] = LCS of a[i..] and b[j..]
+    const lengths: Uint32Array[] = Array.from(
+      { length: a.length + 1 },
+      () => new Uint32Array(b.length + 1),
+    );
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i][j] =
+          a[i] === b[j]
+            ? lengths[i + 1][j + 1] + 1
+            : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    const ops: Array<{ type: 'context' | 'removed' | 'added'; text: string }> =
+      [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        ops.push({ type: 'context', text: a[i] });
+        i++;
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        ops.push({ type: 'removed', text: a[i++] });
+      } else {
+        ops.push({ type: 'added', text: b[j++] });
+      }
+    }
+    while (i < a.length) ops.push({ type: 'removed', text: a[i++] });
+    while (j < b.length) ops.push({ type: 'added', text: b[j++] });
+
+    return ops;
+  }
+
+  /**
+   * Delete the files of pruned snapshots that no kept snapshot shares
+   */
+  private async removeUnusedFiles(
+    netlinkId: number,
+    pruned: NetlinkSnapshot[],
+    kept: NetlinkSnapshot[],
+  ): Promise<void> {
+    const keptFiles = new Set(kept.map((s) => s.file));
+    const unused = new Set(
+      pruned.map((s) => s.file).filter((file) => !keptFiles.has(file)),
+    );
+
+    for (const file of unused) {
+      await fs
+        .unlink(path.join(this.getNetlinkDir(netlinkId), file))
+        .catch((error) => {
+          if (error.code !== 'ENOENT') {
+            this.logger.warn(
+              `Failed to delete snapshot ${file} of netlink ${netlinkId}: ${error.message}`,
+            );
+          }
+        });
+    }
+  }
+
+  /**
+   * Keep the NETLINK_SNAPSHOTS_MAX_CHECKS most recent screenshots of a netlink
+   * File names start with the check timestamp, so they sort chronologically
+   */
+  private async pruneScreenshots(netlinkId: number): Promise<void> {
+    const dir = this.getNetlinkDir(netlinkId);
+    const screenshots = (await fs.readdir(dir))
+      .filter((file) => file.endsWith('-anchor.png'))
+      .sort();
+
+    for (const file of screenshots.slice(
+      0,
+      Math.max(0, screenshots.length - this.maxChecks),
+    )) {
+      await fs.unlink(path.join(dir, file)).catch((error) => {
+        if (error.code !== 'ENOENT') {
+          this.logger.warn(
+            `Failed to delete screenshot ${file} of netlink ${netlinkId}: ${error.message}`,
+          );
+        }
+      });
+    }
+  }
+
+  private async writeIndex(
+    netlinkId: number,
+    snapshots: NetlinkSnapshot[],
+  ): Promise<void> {
+    const filepath = path.join(this.getNetlinkDir(netlinkId), 'index.json');
+    await fs.writeFile(`${filepath}.tmp`, JSON.stringify(snapshots, null, 2));
+    await fs.rename(`${filepath}.tmp`, filepath);
+  }
+
+  private getNetlinkDir(netlinkId: number): string {
+    return path.join(this.snapshotsDir, String(netlinkId));
+  }
+}